@@ -0,0 +1,33 @@
+import http from "http";
+import { verifySignature } from "../server/webhooks";
+
+// Local stand-in for a webhook receiver: logs every delivery and whether its signature checks out.
+//   WEBHOOK_SECRET=<secret from the organizer page> npm run webhook-receiver
+// Add http://localhost:4000/ as a webhook; FAIL_EVERY=2 answers every 2nd delivery with 500 to try the retries.
+const PORT = Number(process.env.PORT ?? 4000);
+const SECRET = process.env.WEBHOOK_SECRET;
+const FAIL_EVERY = Number(process.env.FAIL_EVERY ?? 0);
+
+let received = 0;
+
+http.createServer((req, res) => {
+  let body = "";
+  req.on("data", chunk => body += chunk);
+  req.on("end", () => {
+    received++;
+    const signature = req.headers["x-hockey-signature"] as string | undefined;
+    const verdict = SECRET ? (verifySignature(SECRET, body, signature) ? "signature ok" : "BAD SIGNATURE") : "signature not checked";
+    console.log(`#${received} ${req.headers["x-hockey-event"]} (delivery ${req.headers["x-hockey-delivery"]}, ${verdict})`);
+    console.log(body);
+
+    if (SECRET && verdict !== "signature ok") {
+      res.writeHead(401).end();
+    } else if (FAIL_EVERY > 0 && received % FAIL_EVERY === 0) {
+      res.writeHead(500).end();
+    } else {
+      res.writeHead(204).end();
+    }
+  });
+}).listen(PORT, () => {
+  console.log(`Webhook receiver on http://localhost:${PORT}/`);
+});
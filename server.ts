@@ -5,106 +5,2082 @@ import http from "http";
 import Database from "better-sqlite3";
 import path from "path";
 import { fileURLToPath } from "url";
+import { createSeed, DEFAULT_VARIETY, drawTeams } from "./server/draw";
+import { DEFAULT_FORMAT, fitsSlots, parseFormat, positionCapacity, SlotDemand } from "./server/format";
+import { buildLines, LINE_SIZES, LineCandidate } from "./server/lines";
+import { clockSeconds, nextPeriod, pauseClock, startClock } from "./server/clock";
+import { rateGame, RatedPlayer } from "./server/rating";
+import { DEFAULT_COSTS, splitIceCost } from "./server/costs";
+import { importRows, matchName, parseChat, parseCsv, playersToCsv } from "./server/roster-import";
+import { attendanceReport, CancellationRow, LATE_CANCELLATION_MINUTES, RosterSpot } from "./server/attendance";
+import { Appearance, playerStats, ScoredGoal, seasonOf, seasonRange, statsLeaders } from "./server/stats";
+import { ApiError, sendError } from "./server/errors";
+import { createEventLog } from "./server/sync";
+import { buildLineup, renderLineupSheet, renderTeamCard } from "./server/lineup";
+import { MAX_ATTEMPTS, retryDelaySeconds, sendWebhook, WEBHOOK_EVENTS } from "./server/webhooks";
+import { authenticate, createToken, getIdentity, readToken, requireOrganizer } from "./server/auth";
+import { getGroup, GroupRecord, resolveGroup, SLUG_PATTERN, slugify } from "./server/groups";
+import { DEFAULT_SCHEDULE, GAME_DURATION_MINUTES, gameStart, gameWindows, nextGameDate, toLocalDate } from "./server/schedule";
+import { AttendanceReport, AuditAction, AuditEntry, Cancellation, ChatSignup, ConstraintKind, CostSettings, DrawRecord, DrawRule, DrawTrigger, Game, GameClock, GameGoal, GamePlayer, GameWithRoster, Group, Identity, ImportResult, LedgerEntry, PaymentMethod, Player, PlayerBalance, PlayerConstraint, Position, PROTOCOL_VERSION, ResumeRequest, Schedule, SyncEvent, SyncSnapshot, Team, TeammateRepeat, VarietySettings, Webhook, WebhookDelivery, WebhookEvent, WebSocketMessage } from "./src/types";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const db = new Database("hockey.db");
 
+const DEFAULT_RATING = 1000;
+
 // Initialize database
 db.exec(`
+  CREATE TABLE IF NOT EXISTS groups (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    slug TEXT NOT NULL UNIQUE, -- in the group's URLs, /g/<slug>
+    name TEXT NOT NULL,
+    organizer_key TEXT NOT NULL UNIQUE,
+    created_at TEXT NOT NULL
+  );
+
   CREATE TABLE IF NOT EXISTS players (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
+    group_id INTEGER REFERENCES groups(id),
     name TEXT NOT NULL,
-    position TEXT NOT NULL -- 'forward', 'defense', 'goalie'
+    position TEXT NOT NULL, -- 'forward', 'defense', 'goalie'
+    secondary_positions TEXT NOT NULL DEFAULT '[]', -- JSON list, most preferred first
+    rating REAL NOT NULL DEFAULT ${DEFAULT_RATING},
+    active INTEGER NOT NULL DEFAULT 1,
+    token TEXT -- personal signup link
+  );
+
+  CREATE TABLE IF NOT EXISTS settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS group_settings (
+    group_id INTEGER NOT NULL REFERENCES groups(id),
+    key TEXT NOT NULL,
+    value TEXT NOT NULL,
+    PRIMARY KEY (group_id, key)
+  );
+
+  CREATE TABLE IF NOT EXISTS games (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    group_id INTEGER REFERENCES groups(id),
+    date TEXT NOT NULL, -- 'YYYY-MM-DD'
+    venue TEXT NOT NULL DEFAULT '',
+    status TEXT NOT NULL DEFAULT 'open', -- 'open', 'closed'
+    closed_at TEXT,
+    format TEXT NOT NULL, -- JSON GameFormat
+    scores TEXT, -- JSON score per team id
+    clock TEXT, -- JSON GameClock while the game is played live
+    start_time TEXT, -- 'HH:MM'
+    signups_open_at TEXT,
+    signups_lock_at TEXT,
+    draw_at TEXT,
+    auto_drawn_at TEXT,
+    ice_cost INTEGER -- cents
   );
 
   CREATE TABLE IF NOT EXISTS current_game (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
+    game_id INTEGER REFERENCES games(id),
+    player_id INTEGER REFERENCES players(id), -- NULL for guests
     name TEXT NOT NULL,
     position TEXT NOT NULL,
-    team TEXT -- 'red', 'blue', or NULL
+    team TEXT, -- team id from the game's format, or NULL
+    played_position TEXT, -- set when the draw puts the player out of position
+    line INTEGER, -- defense pair or forward line within the team
+    waitlisted INTEGER NOT NULL DEFAULT 0, -- 1 while waiting for a free slot
+    locked INTEGER NOT NULL DEFAULT 0, -- 1 when the draw must keep the team
+    no_show INTEGER NOT NULL DEFAULT 0 -- 1 when the player did not turn up
+  );
+
+  CREATE TABLE IF NOT EXISTS cancellations (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    game_id INTEGER NOT NULL REFERENCES games(id),
+    player_id INTEGER REFERENCES players(id), -- NULL for guests
+    name TEXT NOT NULL,
+    position TEXT NOT NULL,
+    waitlisted INTEGER NOT NULL,
+    cancelled_at TEXT NOT NULL,
+    minutes_before INTEGER, -- until the game start; negative after it, NULL without a start time
+    removed_by TEXT NOT NULL -- 'player', 'organizer'
+  );
+
+  CREATE TABLE IF NOT EXISTS ledger (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    player_id INTEGER NOT NULL REFERENCES players(id),
+    game_id INTEGER REFERENCES games(id), -- set for charges
+    kind TEXT NOT NULL, -- 'charge', 'payment'
+    amount INTEGER NOT NULL, -- cents
+    method TEXT, -- 'cash', 'transfer' for payments
+    note TEXT NOT NULL DEFAULT '',
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS webhooks (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    group_id INTEGER REFERENCES groups(id),
+    url TEXT NOT NULL,
+    secret TEXT NOT NULL,
+    events TEXT NOT NULL, -- JSON list of subscribed events
+    active INTEGER NOT NULL DEFAULT 1,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    webhook_id INTEGER NOT NULL REFERENCES webhooks(id),
+    event TEXT NOT NULL,
+    payload TEXT NOT NULL, -- JSON body as signed and sent
+    status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'delivered', 'failed'
+    attempts INTEGER NOT NULL DEFAULT 0,
+    response_status INTEGER,
+    error TEXT,
+    next_attempt_at TEXT,
+    created_at TEXT NOT NULL,
+    delivered_at TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    group_id INTEGER REFERENCES groups(id),
+    action TEXT NOT NULL, -- 'player_added', 'signup', 'signup_removed', 'teams_changed', 'game_reset', 'undo'
+    actor_role TEXT NOT NULL, -- 'organizer', 'player', 'schedule'
+    actor_player_id INTEGER,
+    actor_name TEXT,
+    created_at TEXT NOT NULL,
+    game_id INTEGER,
+    summary TEXT NOT NULL,
+    before TEXT, -- JSON state the change replaced
+    after TEXT, -- JSON state it left
+    undoes INTEGER REFERENCES audit_log(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS rating_changes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    game_id INTEGER NOT NULL REFERENCES games(id),
+    player_id INTEGER NOT NULL REFERENCES players(id),
+    rating_before REAL NOT NULL,
+    rating_after REAL NOT NULL,
+    change REAL NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS player_constraints (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    player_a INTEGER NOT NULL REFERENCES players(id), -- the lower id of the pair
+    player_b INTEGER NOT NULL REFERENCES players(id),
+    kind TEXT NOT NULL, -- 'together', 'apart', 'linemates'
+    hard INTEGER NOT NULL DEFAULT 0, -- 1 when the draw must not break it
+    UNIQUE (player_a, player_b)
+  );
+
+  CREATE TABLE IF NOT EXISTS goals (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    game_id INTEGER NOT NULL REFERENCES games(id),
+    team TEXT NOT NULL,
+    scorer_id INTEGER NOT NULL REFERENCES current_game(id),
+    assist_ids TEXT NOT NULL DEFAULT '[]', -- JSON list of signup ids
+    period INTEGER,
+    time INTEGER, -- seconds into the period
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS draws (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    game_id INTEGER NOT NULL REFERENCES games(id),
+    seed INTEGER NOT NULL,
+    created_at TEXT NOT NULL,
+    triggered_by TEXT NOT NULL, -- 'organizer', 'schedule'
+    input TEXT NOT NULL, -- JSON format, candidates and rules the draw ran with
+    result TEXT NOT NULL -- JSON teams and balance it produced
   );
 `);
 
+const hasColumn = (table: string, column: string) =>
+  (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).some(c => c.name === column);
+
+// Adds a column that older hockey.db files were created without; returns whether it was added
+const addColumn = (table: string, column: string, definition: string) => {
+  if (hasColumn(table, column)) return false;
+  db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  return true;
+};
+
+addColumn("players", "rating", `REAL NOT NULL DEFAULT ${DEFAULT_RATING}`);
+addColumn("current_game", "game_id", "INTEGER REFERENCES games(id)");
+addColumn("current_game", "waitlisted", "INTEGER NOT NULL DEFAULT 0");
+addColumn("players", "active", "INTEGER NOT NULL DEFAULT 1");
+addColumn("players", "token", "TEXT");
+addColumn("games", "start_time", "TEXT");
+addColumn("games", "signups_open_at", "TEXT");
+addColumn("games", "signups_lock_at", "TEXT");
+addColumn("games", "draw_at", "TEXT");
+addColumn("games", "auto_drawn_at", "TEXT");
+addColumn("current_game", "locked", "INTEGER NOT NULL DEFAULT 0");
+addColumn("players", "secondary_positions", "TEXT NOT NULL DEFAULT '[]'");
+addColumn("current_game", "played_position", "TEXT");
+addColumn("current_game", "line", "INTEGER");
+addColumn("games", "clock", "TEXT");
+addColumn("current_game", "no_show", "INTEGER NOT NULL DEFAULT 0");
+addColumn("games", "ice_cost", "INTEGER");
+const groupScoped = ["players", "games", "webhooks", "audit_log"];
+for (const table of groupScoped) {
+  addColumn(table, "group_id", "INTEGER REFERENCES groups(id)");
+}
+// Games from before formats were all played red against blue
+addColumn("games", "format", `TEXT NOT NULL DEFAULT '${JSON.stringify(DEFAULT_FORMAT)}'`);
+// Scores used to be two fixed columns for red and blue
+if (addColumn("games", "scores", "TEXT") && hasColumn("games", "red_score")) {
+  db.exec(`
+    UPDATE games SET scores = json_object('red', red_score, 'blue', blue_score) WHERE red_score IS NOT NULL;
+    ALTER TABLE games DROP COLUMN red_score;
+    ALTER TABLE games DROP COLUMN blue_score;
+  `);
+}
+if (addColumn("current_game", "player_id", "INTEGER REFERENCES players(id)")) {
+  // Signups used to be matched to players by name only
+  db.exec("UPDATE current_game SET player_id = (SELECT MIN(id) FROM players WHERE players.name = current_game.name)");
+}
+
+// Double signups left behind by the old check-then-insert are dropped before the unique index
+db.exec(`
+  DELETE FROM current_game
+  WHERE id NOT IN (SELECT MIN(id) FROM current_game GROUP BY game_id, COALESCE(player_id, name COLLATE NOCASE));
+
+  DROP INDEX IF EXISTS current_game_name_unique;
+
+  CREATE UNIQUE INDEX IF NOT EXISTS current_game_player_unique
+    ON current_game (game_id, player_id) WHERE player_id IS NOT NULL;
+
+  CREATE UNIQUE INDEX IF NOT EXISTS current_game_guest_unique
+    ON current_game (game_id, name COLLATE NOCASE) WHERE player_id IS NULL;
+
+  CREATE UNIQUE INDEX IF NOT EXISTS players_token_unique ON players (token);
+
+  CREATE TRIGGER IF NOT EXISTS current_game_position_check
+  BEFORE INSERT ON current_game
+  WHEN NEW.position NOT IN ('forward', 'defense', 'goalie')
+  BEGIN
+    SELECT RAISE(ABORT, 'invalid position');
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS audit_log_no_update
+  BEFORE UPDATE ON audit_log
+  BEGIN
+    SELECT RAISE(ABORT, 'audit log is append-only');
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS audit_log_no_delete
+  BEFORE DELETE ON audit_log
+  BEGIN
+    SELECT RAISE(ABORT, 'audit log is append-only');
+  END;
+`);
+
+const addDays = (date: string, days: number) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+};
+
+// Every player gets a personal signup link
+const assignToken = db.prepare("UPDATE players SET token = ? WHERE id = ?");
+for (const { id } of db.prepare("SELECT id FROM players WHERE token IS NULL").all() as { id: number }[]) {
+  assignToken.run(createToken(), id);
+}
+
+const getSetting = (key: string) =>
+  (db.prepare("SELECT value FROM settings WHERE key = ?").get(key) as { value: string } | undefined)?.value;
+
+const setSetting = (key: string, value: string) =>
+  db.prepare("INSERT INTO settings (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value").run(key, value);
+
+// The server key creates groups and organizes every one of them. ORGANIZER_KEY from the
+// environment wins; otherwise a key is generated once and kept in the database
+const serverKey = process.env.ORGANIZER_KEY || getSetting("organizer_key") || createToken();
+if (!process.env.ORGANIZER_KEY) setSetting("organizer_key", serverKey);
+
+// Everything from before groups belongs to the first one, organized with the key that ran it so far
+if (!db.prepare("SELECT 1 FROM groups").get()) {
+  db.prepare("INSERT INTO groups (slug, name, organizer_key, created_at) VALUES (?, ?, ?, ?)").run("hokej", "Hokej", serverKey, new Date().toISOString());
+}
+const firstGroupId = db.prepare("SELECT MIN(id) FROM groups").pluck().get() as number;
+// Filling in the new column is the one update the append-only audit log ever gets
+if (groupScoped.some(table => db.prepare(`SELECT 1 FROM ${table} WHERE group_id IS NULL`).get())) {
+  const trigger = db.prepare("SELECT sql FROM sqlite_master WHERE type = 'trigger' AND name = 'audit_log_no_update'").pluck().get() as string;
+  db.transaction(() => {
+    db.exec("DROP TRIGGER audit_log_no_update");
+    for (const table of groupScoped) {
+      db.prepare(`UPDATE ${table} SET group_id = ? WHERE group_id IS NULL`).run(firstGroupId);
+    }
+    db.exec(trigger);
+  })();
+}
+
+// Settings of one group; they used to be kept for the whole server
+const GROUP_SETTINGS = ["schedule", "variety", "costs", "waitlist_by_reliability"];
+db.transaction(() => {
+  const keys = GROUP_SETTINGS.map(() => "?").join(", ");
+  db.prepare(`INSERT OR IGNORE INTO group_settings (group_id, key, value) SELECT ?, key, value FROM settings WHERE key IN (${keys})`).run(firstGroupId, ...GROUP_SETTINGS);
+  db.prepare(`DELETE FROM settings WHERE key IN (${keys})`).run(...GROUP_SETTINGS);
+})();
+
+const getGroupSetting = (groupId: number, key: string) =>
+  (db.prepare("SELECT value FROM group_settings WHERE group_id = ? AND key = ?").get(groupId, key) as { value: string } | undefined)?.value;
+
+const setGroupSetting = (groupId: number, key: string, value: string) =>
+  db.prepare("INSERT INTO group_settings (group_id, key, value) VALUES (?, ?, ?) ON CONFLICT(group_id, key) DO UPDATE SET value = excluded.value").run(groupId, key, value);
+
+const getSchedule = (groupId: number): Schedule => ({ ...DEFAULT_SCHEDULE, ...JSON.parse(getGroupSetting(groupId, "schedule") ?? "{}") });
+
+const getVariety = (groupId: number): VarietySettings => ({ ...DEFAULT_VARIETY, ...JSON.parse(getGroupSetting(groupId, "variety") ?? "{}") });
+
+const getCosts = (groupId: number): CostSettings => ({ ...DEFAULT_COSTS, ...JSON.parse(getGroupSetting(groupId, "costs") ?? "{}") });
+
+const POSITIONS: Position[] = ["forward", "defense", "goalie"];
+
+const toPlayer = (row: any): Player => ({ ...row, secondary_positions: JSON.parse(row.secondary_positions), active: Boolean(row.active) });
+
+// Ordered secondary positions: known, listed once and without the player's main position
+const parseSecondaryPositions = (input: unknown, primary: Position) => {
+  if (!Array.isArray(input) || !input.every(p => POSITIONS.includes(p)) || new Set(input).size !== input.length) {
+    return null;
+  }
+  return (input as Position[]).filter(p => p !== primary);
+};
+
+const toGamePlayer = (row: any): GamePlayer => ({ ...row, waitlisted: Boolean(row.waitlisted), locked: Boolean(row.locked), no_show: Boolean(row.no_show) });
+
+const toCancellation = (row: any): Cancellation => ({ ...row, waitlisted: Boolean(row.waitlisted) });
+
+const toGame = (row: any): Game => ({
+  ...row,
+  format: JSON.parse(row.format),
+  scores: row.scores ? JSON.parse(row.scores) : null,
+  clock: row.clock ? JSON.parse(row.clock) : null,
+});
+
+const toGoal = (row: any): GameGoal => ({ ...row, assist_ids: JSON.parse(row.assist_ids) });
+
+// A signup named in the goal log cannot go away without rewriting the score
+const hasGoals = (signupId: number) =>
+  Boolean(db.prepare("SELECT 1 FROM goals WHERE scorer_id = ? OR ? IN (SELECT value FROM json_each(assist_ids))").get(signupId, signupId));
+
+// Credits the goals and assists of one signup to another of the same game
+const moveGoals = (from: number, to: number) => {
+  db.prepare("UPDATE goals SET scorer_id = ? WHERE scorer_id = ?").run(to, from);
+  const assisted = db.prepare("SELECT * FROM goals WHERE ? IN (SELECT value FROM json_each(assist_ids))").all(from).map(toGoal);
+  for (const goal of assisted) {
+    const assists = [...new Set(goal.assist_ids.map(id => id === from ? to : id))].filter(id => id !== goal.scorer_id);
+    db.prepare("UPDATE goals SET assist_ids = ? WHERE id = ?").run(JSON.stringify(assists), goal.id);
+  }
+};
+
+const toConstraint = (row: any): PlayerConstraint => ({ ...row, hard: Boolean(row.hard) });
+
+// Draws recorded before teammate variety ran without repeats
+const toDraw = (row: any): DrawRecord => {
+  const { input, result, ...draw } = row;
+  return { ...draw, repeats: [], ...JSON.parse(input), ...JSON.parse(result) };
+};
+
+const CONSTRAINT_KINDS: ConstraintKind[] = ["together", "apart", "linemates"];
+
+// A pair has at most one rule, stored with the lower player id first; setting it again replaces it
+const saveConstraint = (playerA: number, playerB: number, kind: ConstraintKind, hard: boolean) =>
+  db.prepare(`
+    INSERT INTO player_constraints (player_a, player_b, kind, hard) VALUES (?, ?, ?, ?)
+    ON CONFLICT (player_a, player_b) DO UPDATE SET kind = excluded.kind, hard = excluded.hard
+  `).run(Math.min(playerA, playerB), Math.max(playerA, playerB), kind, Number(hard));
+
+// Signups with the current name of the linked player; guests keep the name they signed up with
+const SIGNUP_SELECT = `
+  SELECT cg.id, cg.game_id, cg.player_id, COALESCE(p.name, cg.name) AS name, cg.position, cg.team, cg.played_position, cg.line, cg.waitlisted, cg.locked, cg.no_show
+  FROM current_game cg
+  LEFT JOIN players p ON p.id = cg.player_id
+`;
+
+// Every signup of a game, waitlist included, in signup order
+const getSignups = (gameId: number) =>
+  db.prepare(`${SIGNUP_SELECT} WHERE cg.game_id = ? ORDER BY cg.id`).all(gameId).map(toGamePlayer);
+
+// Given a group, only its own players are found
+const getPlayer = (id: unknown, groupId: number | null = null) => {
+  const row = db.prepare("SELECT * FROM players WHERE id = ? AND (? IS NULL OR group_id = ?)").get(id, groupId, groupId);
+  return row ? toPlayer(row) : undefined;
+};
+
+// Positions a signup can fill: the one signed up for, then the player's secondary positions
+const slotDemand = (row: { position: Position; secondary: string }): SlotDemand =>
+  ({ position: row.position, secondary: JSON.parse(row.secondary) });
+
+// There is room while the cap is not reached and every team slot of a position can still be
+// matched to someone who plays it, so a forward who also plays defense may take a free defense slot
+const hasRoom = (gameId: number, signup: SlotDemand) => {
+  const { format } = getGame(gameId)!;
+  const roster = db.prepare(`
+    SELECT cg.position, COALESCE(p.secondary_positions, '[]') AS secondary
+    FROM current_game cg
+    LEFT JOIN players p ON p.id = cg.player_id
+    WHERE cg.game_id = ? AND cg.waitlisted = 0
+  `).all(gameId) as { position: Position; secondary: string }[];
+  return roster.length < format.maxPlayers && fitsSlots(format, [...roster.map(slotDemand), signup]);
+};
+
+const getAttendance = (groupId: number) => {
+  const spots = db.prepare(`
+    SELECT cg.player_id, p.name, cg.no_show
+    FROM current_game cg
+    JOIN games g ON g.id = cg.game_id
+    JOIN players p ON p.id = cg.player_id
+    WHERE g.group_id = ? AND g.status = 'closed' AND cg.waitlisted = 0
+  `).all(groupId).map((row: any): RosterSpot => ({ ...row, no_show: Boolean(row.no_show) }));
+  // Leaving the waitlist leaves nobody short, so only roster spots given up late count against a player
+  const cancellations = db.prepare(`
+    SELECT c.player_id, p.name, c.waitlisted = 0 AND c.minutes_before IS NOT NULL AND c.minutes_before < ? AS late
+    FROM cancellations c
+    JOIN players p ON p.id = c.player_id
+    WHERE p.group_id = ?
+  `).all(LATE_CANCELLATION_MINUTES, groupId).map((row: any): CancellationRow => ({ ...row, late: Boolean(row.late) }));
+  return attendanceReport(spots, cancellations);
+};
+
+const waitlistByReliability = (groupId: number) => getGroupSetting(groupId, "waitlist_by_reliability") === "1";
+
+// Moves waiting players into free slots, first come first served, or most reliable first
+// when the organizer turned that on; players without a record count as fully reliable
+const promoteWaitlisted = (gameId: number) => {
+  const groupId = getGame(gameId)!.group_id;
+  const waiting = db.prepare(`
+    SELECT s.*, COALESCE(p.secondary_positions, '[]') AS secondary
+    FROM (${SIGNUP_SELECT} WHERE cg.game_id = ? AND cg.waitlisted = 1) s
+    LEFT JOIN players p ON p.id = s.player_id
+    ORDER BY s.id
+  `).all(gameId) as (GamePlayer & { secondary: string })[];
+  if (waiting.length > 0 && waitlistByReliability(groupId)) {
+    const reliability = new Map(getAttendance(groupId).map(record => [record.player_id, record.reliability ?? 1]));
+    const reliabilityOf = (signup: GamePlayer) => signup.player_id === null ? 1 : reliability.get(signup.player_id) ?? 1;
+    waiting.sort((a, b) => reliabilityOf(b) - reliabilityOf(a));
+  }
+  const promote = db.prepare("UPDATE current_game SET waitlisted = 0 WHERE id = ?");
+  const promoted: GamePlayer[] = [];
+  for (const { secondary, ...signup } of waiting) {
+    if (hasRoom(gameId, slotDemand({ position: signup.position, secondary }))) {
+      promote.run(signup.id);
+      promoted.push({ ...toGamePlayer(signup), waitlisted: false });
+    }
+  }
+  return promoted;
+};
+
+// Pairs of signups whose players were teammates in the last closed games; a pair costs
+// more the more often and the more recently it played together
+const recentRepeats = (groupId: number, signupOf: Map<number, number>, variety: VarietySettings): TeammateRepeat[] => {
+  const games = db.prepare("SELECT id FROM games WHERE group_id = ? AND status = 'closed' ORDER BY date DESC, id DESC LIMIT ?").all(groupId, variety.lookbackGames) as { id: number }[];
+  const teamsOf = db.prepare("SELECT player_id, team FROM current_game WHERE game_id = ? AND player_id IS NOT NULL AND team IS NOT NULL");
+  const repeats = new Map<string, TeammateRepeat>();
+  games.forEach((game, age) => {
+    const weight = variety.repeatPenalty * (variety.lookbackGames - age) / variety.lookbackGames;
+    const players = (teamsOf.all(game.id) as { player_id: number; team: Team }[]).filter(p => signupOf.has(p.player_id));
+    players.forEach((p, index) => {
+      for (const q of players.slice(index + 1)) {
+        if (p.team !== q.team) continue;
+        const [a, b] = [signupOf.get(p.player_id)!, signupOf.get(q.player_id)!].sort((x, y) => x - y);
+        const repeat = repeats.get(`${a}-${b}`) ?? { a, b, weight: 0 };
+        repeat.weight += weight;
+        repeats.set(`${a}-${b}`, repeat);
+      }
+    });
+  });
+  return [...repeats.values()];
+};
+
+// Splits the teams of a game into defense pairs and forward lines, keeping preferred linemates together
+const assignLines = (gameId: number) => {
+  const players = db.prepare(`
+    SELECT cg.id, cg.player_id, cg.team, COALESCE(cg.played_position, cg.position) AS position, COALESCE(p.rating, ?) AS rating
+    FROM current_game cg
+    LEFT JOIN players p ON p.id = cg.player_id
+    WHERE cg.game_id = ? AND cg.waitlisted = 0 AND cg.team IS NOT NULL
+  `).all(DEFAULT_RATING, gameId) as (LineCandidate & { player_id: number | null })[];
+  const signupOf = new Map(players.filter(p => p.player_id !== null).map(p => [p.player_id, p.id]));
+  const preferences = (db.prepare("SELECT player_a, player_b FROM player_constraints WHERE kind = 'linemates'").all() as { player_a: number; player_b: number }[])
+    .filter(c => signupOf.has(c.player_a) && signupOf.has(c.player_b))
+    .map(c => ({ a: signupOf.get(c.player_a)!, b: signupOf.get(c.player_b)! }));
+  const lineOf = buildLines(players, preferences);
+  const update = db.prepare("UPDATE current_game SET line = ? WHERE id = ?");
+  for (const player of players) {
+    update.run(lineOf.get(player.id) ?? null, player.id);
+  }
+};
+
+// Stores the final score and applies the rating changes to everyone who played in a team
+const recordResult = db.transaction((game: Game, score: Record<Team, number>) => {
+  // Re-entering a result first reverts the rating changes of the previous one
+  const previous = db.prepare("SELECT player_id, change FROM rating_changes WHERE game_id = ?").all(game.id) as { player_id: number; change: number }[];
+  const revert = db.prepare("UPDATE players SET rating = rating - ? WHERE id = ?");
+  for (const item of previous) {
+    revert.run(item.change, item.player_id);
+  }
+  db.prepare("DELETE FROM rating_changes WHERE game_id = ?").run(game.id);
+
+  const participants = db.prepare(`
+    SELECT p.id, cg.team, p.rating
+    FROM current_game cg
+    JOIN players p ON p.id = cg.player_id
+    WHERE cg.game_id = ? AND cg.team IS NOT NULL AND cg.waitlisted = 0 AND cg.no_show = 0
+  `).all(game.id) as RatedPlayer[];
+
+  const updates = rateGame(participants, score);
+  const log = db.prepare("INSERT INTO rating_changes (game_id, player_id, rating_before, rating_after, change) VALUES (?, ?, ?, ?, ?)");
+  const apply = db.prepare("UPDATE players SET rating = ? WHERE id = ?");
+  for (const update of updates) {
+    log.run(game.id, update.id, update.before, update.after, update.change);
+    apply.run(update.after, update.id);
+  }
+  db.prepare("UPDATE games SET scores = ? WHERE id = ?").run(JSON.stringify(score), game.id);
+  return updates;
+});
+
+// The single game of a group currently accepting signups; every signup belongs to a game
+const getOpenGame = (groupId: number) =>
+  toGame(db.prepare("SELECT * FROM games WHERE group_id = ? AND status = 'open' ORDER BY id DESC LIMIT 1").get(groupId));
+
+// A new group starts with a game for today
+const openFirstGame = (groupId: number) => {
+  if (!db.prepare("SELECT id FROM games WHERE group_id = ? AND status = 'open'").get(groupId)) {
+    db.prepare("INSERT INTO games (group_id, date, format) VALUES (?, ?, ?)").run(groupId, toLocalDate(new Date()), JSON.stringify(DEFAULT_FORMAT));
+  }
+};
+for (const id of db.prepare("SELECT id FROM groups").pluck().all() as number[]) {
+  openFirstGame(id);
+}
+// Given a group, only its own games are found
+const getGame = (id: unknown, groupId: number | null = null) => {
+  const row = db.prepare("SELECT * FROM games WHERE id = ? AND (? IS NULL OR group_id = ?)").get(id, groupId, groupId);
+  return row ? toGame(row) : undefined;
+};
+
+// Next game after the given one, in the same format and at the default ice cost: from the
+// weekly schedule when it is on, otherwise a week later at the same venue
+const createNextGame = (previous: Game) => {
+  const schedule = getSchedule(previous.group_id);
+  const format = JSON.stringify(previous.format);
+  const iceCost = getCosts(previous.group_id).iceCost || null;
+  if (!schedule.enabled) {
+    const result = db.prepare("INSERT INTO games (group_id, date, venue, start_time, format, ice_cost) VALUES (?, ?, ?, ?, ?, ?)")
+      .run(previous.group_id, addDays(previous.date, 7), previous.venue, previous.start_time, format, iceCost);
+    return getGame(result.lastInsertRowid)!;
+  }
+  const previousStart = gameStart(previous.date, previous.start_time ?? "00:00");
+  const after = previousStart > new Date() ? previousStart : new Date();
+  const date = nextGameDate(schedule, after);
+  const windows = gameWindows(date, schedule);
+  const result = db.prepare(`
+    INSERT INTO games (group_id, date, venue, start_time, signups_open_at, signups_lock_at, draw_at, format, ice_cost)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(previous.group_id, date, schedule.venue, schedule.time, windows.signups_open_at, windows.signups_lock_at, windows.draw_at, format, iceCost);
+  return getGame(result.lastInsertRowid)!;
+};
+
+const AUDIT_SELECT = `SELECT a.*, EXISTS (SELECT 1 FROM audit_log u WHERE u.undoes = a.id) AS undone FROM audit_log a`;
+
+const toAuditEntry = (row: any): AuditEntry => ({
+  ...row,
+  before: row.before === null ? null : JSON.parse(row.before),
+  after: row.after === null ? null : JSON.parse(row.after),
+  undone: Boolean(row.undone),
+});
+
+const recordAudit = (groupId: number, actor: Identity | "schedule", action: AuditAction, gameId: number | null, summary: string, before: unknown, after: unknown, undoes: number | null = null) => {
+  const player = actor === "schedule" ? null : actor.player;
+  const result = db.prepare(`
+    INSERT INTO audit_log (group_id, action, actor_role, actor_player_id, actor_name, created_at, game_id, summary, before, after, undoes)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    groupId, action, actor === "schedule" ? "schedule" : actor.role, player?.id ?? null, player?.name ?? null, new Date().toISOString(),
+    gameId, summary, before === null ? null : JSON.stringify(before), after === null ? null : JSON.stringify(after), undoes,
+  );
+  return toAuditEntry(db.prepare(`${AUDIT_SELECT} WHERE a.id = ?`).get(result.lastInsertRowid));
+};
+
+// Where every signup of a game plays, as a team change replaced or left it
+interface TeamPlacement {
+  id: number;
+  team: Team | null;
+  played_position: Position | null;
+  line: number | null;
+  locked: number;
+}
+
+const getTeamPlacements = (gameId: number) =>
+  db.prepare("SELECT id, team, played_position, line, locked FROM current_game WHERE game_id = ? ORDER BY id").all(gameId) as TeamPlacement[];
+
+// Logs a change of teams or lines unless it left everything as it was
+const recordTeamChange = (actor: Identity | "schedule", gameId: number, summary: string, before: TeamPlacement[]) => {
+  const after = getTeamPlacements(gameId);
+  if (JSON.stringify(after) !== JSON.stringify(before)) {
+    recordAudit(getGame(gameId)!.group_id, actor, "teams_changed", gameId, summary, before, after);
+  }
+};
+
+// Replaces the charges of a closed game with shares of its ice cost among the players who
+// showed up; guests count in the split but pay on the spot, so they get no ledger entry
+const chargeGame = (gameId: number) => {
+  db.prepare("DELETE FROM ledger WHERE game_id = ? AND kind = 'charge'").run(gameId);
+  const game = getGame(gameId)!;
+  if (!game.ice_cost) return;
+  const players = db.prepare("SELECT id, player_id, COALESCE(played_position, position) AS position FROM current_game WHERE game_id = ? AND waitlisted = 0 AND no_show = 0")
+    .all(gameId) as { id: number, player_id: number | null, position: Position }[];
+  const shares = splitIceCost(game.ice_cost, players.map(p => ({ id: p.id, goalie: p.position === "goalie" })), getCosts(game.group_id).goalieDiscount);
+  const insert = db.prepare("INSERT INTO ledger (player_id, game_id, kind, amount, created_at) VALUES (?, ?, 'charge', ?, ?)");
+  const now = new Date().toISOString();
+  for (const player of players) {
+    const share = shares.get(player.id) ?? 0;
+    if (player.player_id !== null && share > 0) insert.run(player.player_id, gameId, share, now);
+  }
+};
+
+// Closes the open game into history, charges its ice and opens the next one
+const rolloverGame = db.transaction((groupId: number, actor: Identity | "schedule") => {
+  const game = getOpenGame(groupId);
+  db.prepare("UPDATE games SET status = 'closed', closed_at = ? WHERE id = ?").run(new Date().toISOString(), game.id);
+  chargeGame(game.id);
+  const next = createNextGame(game);
+  recordAudit(groupId, actor, "game_reset", game.id, `Nový zápas ${next.date}`, { game_id: game.id }, { game_id: next.id });
+  return next;
+});
+
+// Players can only sign in or out while the window is open; the organizer is not bound by it
+const signupWindowError = (game: Game) => {
+  const now = new Date();
+  if (game.signups_open_at && now < new Date(game.signups_open_at)) {
+    return new ApiError(409, "SIGNUPS_NOT_OPEN", "Prihlasovanie ešte nie je otvorené");
+  }
+  if (game.signups_lock_at && now >= new Date(game.signups_lock_at)) {
+    return new ApiError(409, "SIGNUPS_LOCKED", "Prihlasovanie je už uzavreté");
+  }
+  return null;
+};
+
+// Reverts a logged change, as long as what it changed has not moved on since; returns
+// the ids of players it removed again
+const undoChange = db.transaction((entry: AuditEntry, actor: Identity) => {
+  const openGame = getOpenGame(entry.group_id);
+  if (entry.game_id !== null && entry.action !== "game_reset" && entry.game_id !== openGame.id) {
+    throw new ApiError(409, "CANNOT_UNDO", "Zápas sa medzitým uzavrel");
+  }
+
+  switch (entry.action) {
+    case "player_added": {
+      const players = entry.after as Player[];
+      for (const player of players) {
+        const used = ["current_game", "ledger", "rating_changes", "cancellations"]
+          .some(table => db.prepare(`SELECT 1 FROM ${table} WHERE player_id = ?`).get(player.id))
+          || db.prepare("SELECT 1 FROM player_constraints WHERE player_a = ? OR player_b = ?").get(player.id, player.id);
+        if (used) {
+          throw new ApiError(409, "CANNOT_UNDO", `Hráč ${player.name} sa už používa`);
+        }
+      }
+      for (const player of players) db.prepare("DELETE FROM players WHERE id = ?").run(player.id);
+      break;
+    }
+    case "signup": {
+      for (const signup of entry.after as GamePlayer[]) {
+        if (hasGoals(signup.id)) {
+          throw new ApiError(409, "CANNOT_UNDO", `${signup.name} už má zapísaný gól`);
+        }
+        db.prepare("DELETE FROM current_game WHERE id = ?").run(signup.id);
+      }
+      promoteWaitlisted(openGame.id);
+      break;
+    }
+    case "signup_removed": {
+      const signup = entry.before as GamePlayer;
+      const { promoted, cancellation_id } = entry.after as { promoted: number[], cancellation_id: number };
+      // Players who moved up into the freed slot go back to waiting
+      for (const id of promoted) {
+        db.prepare("UPDATE current_game SET waitlisted = 1, team = NULL, played_position = NULL, line = NULL, locked = 0 WHERE id = ?").run(id);
+      }
+      db.prepare(`
+        INSERT INTO current_game (id, game_id, player_id, name, position, team, played_position, line, waitlisted, locked, no_show)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(signup.id, entry.game_id, signup.player_id, signup.name, signup.position, signup.team, signup.played_position, signup.line,
+        Number(signup.waitlisted), Number(signup.locked), Number(signup.no_show));
+      db.prepare("DELETE FROM cancellations WHERE id = ?").run(cancellation_id);
+      break;
+    }
+    case "teams_changed": {
+      const update = db.prepare("UPDATE current_game SET team = ?, played_position = ?, line = ?, locked = ? WHERE id = ?");
+      for (const placement of entry.before as TeamPlacement[]) {
+        update.run(placement.team, placement.played_position, placement.line, placement.locked, placement.id);
+      }
+      break;
+    }
+    case "game_reset": {
+      const { game_id: closedId } = entry.before as { game_id: number };
+      const { game_id: nextId } = entry.after as { game_id: number };
+      // Every table that points at games; the new game can only go while nothing does
+      const used = ["current_game", "goals", "draws", "cancellations", "ledger", "rating_changes"]
+        .some(table => db.prepare(`SELECT 1 FROM ${table} WHERE game_id = ?`).get(nextId));
+      if (openGame.id !== nextId || openGame.scores || used) {
+        throw new ApiError(409, "CANNOT_UNDO", "Nový zápas sa už používa");
+      }
+      db.prepare("DELETE FROM games WHERE id = ?").run(nextId);
+      db.prepare("DELETE FROM ledger WHERE game_id = ? AND kind = 'charge'").run(closedId);
+      db.prepare("UPDATE games SET status = 'open', closed_at = NULL WHERE id = ?").run(closedId);
+      break;
+    }
+    default:
+      throw new ApiError(409, "CANNOT_UNDO", "Túto zmenu nie je možné vrátiť");
+  }
+  // A result already recorded is rated again for the restored roster and teams
+  if (["signup", "signup_removed", "teams_changed"].includes(entry.action) && openGame.scores) {
+    recordResult(openGame, openGame.scores);
+  }
+  return recordAudit(entry.group_id, actor, "undo", entry.game_id, `Vrátené: ${entry.summary}`, null, null, entry.id);
+});
+
+const toWebhook = (row: any): Webhook => ({ ...row, events: JSON.parse(row.events), active: Boolean(row.active) });
+
+// Queues an event for every active webhook of the group subscribed to it, or for the one webhook given
+const queueWebhooks = (groupId: number, event: WebhookEvent | "ping", data: unknown, webhookId?: number) => {
+  const webhooks = (webhookId === undefined
+    ? db.prepare("SELECT * FROM webhooks WHERE group_id = ? AND active = 1").all(groupId).map(toWebhook).filter(webhook => webhook.events.includes(event as WebhookEvent))
+    : db.prepare("SELECT * FROM webhooks WHERE id = ? AND group_id = ?").all(webhookId, groupId).map(toWebhook));
+  const now = new Date().toISOString();
+  const group = db.prepare("SELECT slug FROM groups WHERE id = ?").pluck().get(groupId);
+  const payload = JSON.stringify({ event, group, created_at: now, data });
+  const insert = db.prepare("INSERT INTO webhook_deliveries (webhook_id, event, payload, next_attempt_at, created_at) VALUES (?, ?, ?, ?, ?)");
+  return webhooks.map(webhook => Number(insert.run(webhook.id, event, payload, now, now).lastInsertRowid));
+};
+
+// Sends every delivery that is due; a failed attempt is retried later with a growing delay
+// until the attempts run out. Deliveries on their way are not picked up twice.
+const sending = new Set<number>();
+const deliverWebhooks = async () => {
+  const due = db.prepare(`
+    SELECT d.id, d.event, d.payload, d.attempts, w.url, w.secret
+    FROM webhook_deliveries d
+    JOIN webhooks w ON w.id = d.webhook_id
+    WHERE d.status = 'pending' AND d.next_attempt_at <= ?
+    ORDER BY d.id
+  `).all(new Date().toISOString()) as { id: number, event: string, payload: string, attempts: number, url: string, secret: string }[];
+
+  await Promise.all(due.filter(delivery => !sending.has(delivery.id)).map(async delivery => {
+    sending.add(delivery.id);
+    try {
+      const outcome = await sendWebhook(delivery.url, delivery.secret, delivery.id, delivery.event, delivery.payload);
+      const attempts = delivery.attempts + 1;
+      const now = new Date();
+      const status = outcome.ok ? "delivered" : attempts >= MAX_ATTEMPTS ? "failed" : "pending";
+      const nextAttempt = status === "pending" ? new Date(now.getTime() + retryDelaySeconds(attempts) * 1000).toISOString() : null;
+      db.prepare(`
+        UPDATE webhook_deliveries SET status = ?, attempts = ?, response_status = ?, error = ?, next_attempt_at = ?, delivered_at = ?
+        WHERE id = ?
+      `).run(status, attempts, outcome.status, outcome.error, nextAttempt, outcome.ok ? now.toISOString() : null, delivery.id);
+    } finally {
+      sending.delete(delivery.id);
+    }
+  }));
+};
+
+// Tells subscribed webhooks about a roster event right away; retries are left to the interval
+const notifyWebhooks = (groupId: number, event: WebhookEvent, data: unknown) => {
+  if (queueWebhooks(groupId, event, data).length > 0) {
+    deliverWebhooks().catch(error => console.error("Webhook delivery failed:", error));
+  }
+};
+
+// Signups from before games existed belong to the open game
+db.prepare("UPDATE current_game SET game_id = ? WHERE game_id IS NULL").run(getOpenGame(firstGroupId).id);
+
 async function startServer() {
   const app = express();
   const server = http.createServer(app);
   const wss = new WebSocketServer({ server });
 
   app.use(express.json());
+  // Routes of one group; mounted under /api/groups/:group once they are all declared
+  const api = express.Router();
 
-  // WebSocket broadcast helper
-  const broadcast = (data: any) => {
-    const message = JSON.stringify(data);
-    wss.clients.forEach((client) => {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(message);
-      }
+  // WebSocket broadcast helper; every event is numbered per group so pages can catch up on what they missed
+  const eventLogs = new Map<number, ReturnType<typeof createEventLog>>();
+  const eventsOf = (groupId: number) => {
+    if (!eventLogs.has(groupId)) eventLogs.set(groupId, createEventLog());
+    return eventLogs.get(groupId)!;
+  };
+  const groupOf = new WeakMap<WebSocket, number>();
+  const send = (client: WebSocket, message: WebSocketMessage) => {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(JSON.stringify(message));
+    }
+  };
+  // Only pages showing the group hear about it
+  const broadcast = (groupId: number, event: SyncEvent) => {
+    const message = eventsOf(groupId).append(event);
+    wss.clients.forEach(client => {
+      if (groupOf.get(client) === groupId) send(client, message);
     });
   };
 
+  const snapshot = (groupId: number): SyncSnapshot => {
+    const game = getOpenGame(groupId);
+    const goals = db.prepare("SELECT * FROM goals WHERE game_id = ? ORDER BY id").all(game.id).map(toGoal);
+    return { game, signups: getSignups(game.id), goals };
+  };
+
+  // Pages connect with ?group=<slug>, without it they follow the first group. A page says which
+  // event it saw last ({ type: 'RESUME' }) and gets the ones after it, or a snapshot of the
+  // open game when they are not all kept or it runs another version
+  const alive = new WeakSet<WebSocket>();
+  wss.on("connection", (socket, req) => {
+    const slug = new URL(req.url ?? "/", "http://localhost").searchParams.get("group");
+    const groupId = (slug === null
+      ? db.prepare("SELECT MIN(id) FROM groups").pluck().get()
+      : db.prepare("SELECT id FROM groups WHERE slug = ?").pluck().get(slug)) as number | undefined;
+    if (groupId === undefined) {
+      return socket.close(4004, "Unknown group");
+    }
+    groupOf.set(socket, groupId);
+    alive.add(socket);
+    socket.on("pong", () => alive.add(socket));
+    socket.on("message", raw => {
+      let request: ResumeRequest;
+      try {
+        request = JSON.parse(raw.toString());
+      } catch {
+        return;
+      }
+      if (request?.type !== "RESUME") return;
+      const events = eventsOf(groupId);
+      const missed = request.v === PROTOCOL_VERSION ? events.since(request.epoch, request.seq) : null;
+      if (missed) {
+        missed.forEach(message => send(socket, message));
+      } else {
+        send(socket, { type: "SNAPSHOT", v: PROTOCOL_VERSION, epoch: events.epoch, seq: events.lastSeq(), data: snapshot(groupId) });
+      }
+    });
+  });
+
+  // Phones that go to sleep drop connections without closing them; those stop answering pings
+  setInterval(() => {
+    wss.clients.forEach(socket => {
+      if (!alive.has(socket)) return socket.terminate();
+      alive.delete(socket);
+      socket.ping();
+    });
+  }, 30_000);
+
   // API Routes
-  app.get("/api/players", (req, res) => {
-    const players = db.prepare("SELECT * FROM players ORDER BY name ASC").all();
+  const toGroup = ({ id, slug, name }: GroupRecord): Group => ({ id, slug, name, waitlist_by_reliability: waitlistByReliability(id) });
+
+  // Groups anyone can switch to; organizer keys are only listed for the holder of the server key
+  app.get("/api/groups", (req, res) => {
+    const groups = db.prepare("SELECT * FROM groups ORDER BY id").all() as GroupRecord[];
+    res.json(readToken(req) === serverKey ? groups.map(group => ({ ...toGroup(group), organizer_key: group.organizer_key })) : groups.map(toGroup));
+  });
+
+  // Sets up a group ({ name, slug? }) with its own organizer key and a first open game
+  app.post("/api/groups", (req, res) => {
+    if (readToken(req) !== serverKey) {
+      return res.status(403).json({ error: "Skupiny zakladá len správca servera", code: "FORBIDDEN" });
+    }
+    const name = typeof req.body.name === "string" ? req.body.name.trim() : "";
+    const slug = typeof req.body.slug === "string" && req.body.slug.trim() ? req.body.slug.trim() : slugify(name);
+    if (!name) {
+      return res.status(400).json({ error: "Chýba názov skupiny", code: "INVALID_NAME" });
+    }
+    if (!SLUG_PATTERN.test(slug)) {
+      return res.status(400).json({ error: "Neplatná adresa skupiny", code: "INVALID_INPUT" });
+    }
+    const group = db.transaction(() => {
+      if (db.prepare("SELECT 1 FROM groups WHERE slug = ?").get(slug)) {
+        throw new ApiError(409, "INVALID_INPUT", "Skupina s touto adresou už existuje");
+      }
+      const result = db.prepare("INSERT INTO groups (slug, name, organizer_key, created_at) VALUES (?, ?, ?, ?)")
+        .run(slug, name, createToken(), new Date().toISOString());
+      openFirstGame(Number(result.lastInsertRowid));
+      return db.prepare("SELECT * FROM groups WHERE id = ?").get(result.lastInsertRowid) as GroupRecord;
+    });
+    try {
+      const created = group.immediate();
+      res.json({ ...toGroup(created), organizer_key: created.organizer_key });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  api.get("/group", (req, res) => {
+    res.json(toGroup(getGroup(res)));
+  });
+
+  api.get("/me", (req, res) => {
+    res.json(getIdentity(res));
+  });
+
+  // Signup link tokens are only visible to the organizer, who hands them out
+  api.get("/players", (req, res) => {
+    const players = db.prepare("SELECT * FROM players WHERE group_id = ? ORDER BY name ASC").all(getGroup(res).id).map(toPlayer);
+    if (getIdentity(res).role !== "organizer") {
+      players.forEach(player => delete player.token);
+    }
     res.json(players);
   });
 
-  app.post("/api/players", (req, res) => {
-    const { name, position } = req.body;
-    const result = db.prepare("INSERT INTO players (name, position) VALUES (?, ?)").run(name, position);
-    const newPlayer = { id: result.lastInsertRowid, name, position };
+  api.post("/players", requireOrganizer, (req, res) => {
+    const groupId = getGroup(res).id;
+    const name = typeof req.body.name === "string" ? req.body.name.trim() : "";
+    const { position } = req.body;
+    const rating = Number(req.body.rating ?? DEFAULT_RATING);
+    if (!name) {
+      return res.status(400).json({ error: "Chýba meno hráča", code: "INVALID_NAME" });
+    }
+    if (!POSITIONS.includes(position)) {
+      return res.status(400).json({ error: "Neplatná pozícia", code: "INVALID_POSITION" });
+    }
+    const secondary = parseSecondaryPositions(req.body.secondary_positions ?? [], position);
+    if (!secondary) {
+      return res.status(400).json({ error: "Neplatná pozícia", code: "INVALID_POSITION" });
+    }
+    if (!Number.isFinite(rating)) {
+      return res.status(400).json({ error: "Neplatné hodnotenie hráča", code: "INVALID_INPUT" });
+    }
+    const token = createToken();
+    const result = db.prepare("INSERT INTO players (group_id, name, position, secondary_positions, rating, token) VALUES (?, ?, ?, ?, ?, ?)").run(groupId, name, position, JSON.stringify(secondary), rating, token);
+    const newPlayer: Player = { id: Number(result.lastInsertRowid), group_id: groupId, name, position, secondary_positions: secondary, rating, active: true, token };
+    recordAudit(groupId, getIdentity(res), "player_added", null, `Nový hráč ${name}`, null, [newPlayer]);
     res.json(newPlayer);
   });
 
-  app.get("/api/current-game", (req, res) => {
-    const players = db.prepare("SELECT * FROM current_game").all();
-    res.json(players);
+  api.get("/players/export", requireOrganizer, (req, res) => {
+    const players = db.prepare("SELECT * FROM players WHERE group_id = ? ORDER BY name").all(getGroup(res).id).map(toPlayer);
+    res.attachment("hraci.csv").type("text/csv; charset=utf-8").send("\uFEFF" + playersToCsv(players));
+  });
+
+  // Checks a CSV file of players ({ csv }) and, with { commit: true }, adds its new rows;
+  // duplicates and invalid rows are only reported
+  api.post("/players/import", requireOrganizer, (req, res) => {
+    const groupId = getGroup(res).id;
+    const { csv, commit = false } = req.body;
+    if (typeof csv !== "string" || !csv.trim()) {
+      return res.status(400).json({ error: "Súbor je prázdny", code: "INVALID_INPUT" });
+    }
+    const result = db.transaction((): ImportResult => {
+      const existing = db.prepare("SELECT id, name FROM players WHERE group_id = ?").all(groupId) as { id: number, name: string }[];
+      const rows = importRows(parseCsv(csv.replace(/^\uFEFF/, "")), existing, DEFAULT_RATING);
+      if (!commit) return { rows, created: [] };
+      const insert = db.prepare("INSERT INTO players (group_id, name, position, secondary_positions, rating, token) VALUES (?, ?, ?, ?, ?, ?)");
+      const created = rows.filter(row => row.status === "new").map(row => {
+        const result = insert.run(groupId, row.name, row.position, JSON.stringify(row.secondary_positions), row.rating, createToken());
+        return getPlayer(result.lastInsertRowid, groupId)!;
+      });
+      if (created.length > 0) {
+        recordAudit(groupId, getIdentity(res), "player_added", null, `Import hráčov (${created.length})`, null, created);
+      }
+      return { rows, created };
+    }).immediate();
+    res.json(result);
+  });
+
+  // Edits name, positions, rating or the active flag; deactivated players stay in history
+  api.patch("/players/:id", requireOrganizer, (req, res) => {
+    const groupId = getGroup(res).id;
+    const player = getPlayer(req.params.id, groupId);
+    if (!player) {
+      return res.status(404).json({ error: "Hráč neexistuje", code: "NOT_FOUND" });
+    }
+    const name = typeof req.body.name === "string" ? req.body.name.trim() : player.name;
+    const { position = player.position, active = Boolean(player.active) } = req.body;
+    const rating = Number(req.body.rating ?? player.rating);
+    if (!name) {
+      return res.status(400).json({ error: "Chýba meno hráča", code: "INVALID_NAME" });
+    }
+    if (!POSITIONS.includes(position)) {
+      return res.status(400).json({ error: "Neplatná pozícia", code: "INVALID_POSITION" });
+    }
+    const secondary = parseSecondaryPositions(req.body.secondary_positions ?? player.secondary_positions, position);
+    if (!secondary) {
+      return res.status(400).json({ error: "Neplatná pozícia", code: "INVALID_POSITION" });
+    }
+    if (!Number.isFinite(rating) || typeof active !== "boolean") {
+      return res.status(400).json({ error: "Neplatné údaje hráča", code: "INVALID_INPUT" });
+    }
+    db.prepare("UPDATE players SET name = ?, position = ?, secondary_positions = ?, rating = ?, active = ? WHERE id = ?")
+      .run(name, position, JSON.stringify(secondary), rating, Number(active), player.id);
+    broadcast(groupId, { type: "PLAYERS_UPDATED" });
+    res.json(getPlayer(player.id, groupId));
+  });
+
+  // Folds a duplicate record into another player, moving its signups and rating history
+  api.post("/players/:id/merge", requireOrganizer, (req, res) => {
+    const groupId = getGroup(res).id;
+    const source = getPlayer(req.params.id, groupId);
+    const target = getPlayer(req.body.into, groupId);
+    if (!source || !target) {
+      return res.status(404).json({ error: "Hráč neexistuje", code: "NOT_FOUND" });
+    }
+    if (source.id === target.id) {
+      return res.status(400).json({ error: "Hráča nemožno zlúčiť so sebou samým", code: "INVALID_INPUT" });
+    }
+
+    const gameId = getOpenGame(groupId).id;
+    const promoted = db.transaction(() => {
+      // Where both were signed up for the same game, the target's signup is kept and gets the goals
+      const duplicates = db.prepare(`
+        SELECT s.id AS source, t.id AS target FROM current_game s
+        JOIN current_game t ON t.game_id = s.game_id AND t.player_id = ?
+        WHERE s.player_id = ?
+      `).all(target.id, source.id) as { source: number, target: number }[];
+      for (const duplicate of duplicates) moveGoals(duplicate.source, duplicate.target);
+      db.prepare(`
+        DELETE FROM current_game
+        WHERE player_id = ? AND game_id IN (SELECT game_id FROM current_game WHERE player_id = ?)
+      `).run(source.id, target.id);
+      db.prepare("UPDATE current_game SET player_id = ? WHERE player_id = ?").run(target.id, source.id);
+      db.prepare("UPDATE rating_changes SET player_id = ? WHERE player_id = ?").run(target.id, source.id);
+      db.prepare("UPDATE cancellations SET player_id = ? WHERE player_id = ?").run(target.id, source.id);
+      db.prepare("UPDATE ledger SET player_id = ? WHERE player_id = ?").run(target.id, source.id);
+      // Rules move over unless the target already has one for the same pair
+      const rules = db.prepare("SELECT * FROM player_constraints WHERE player_a = ? OR player_b = ?").all(source.id, source.id) as PlayerConstraint[];
+      db.prepare("DELETE FROM player_constraints WHERE player_a = ? OR player_b = ?").run(source.id, source.id);
+      const existing = db.prepare("SELECT id FROM player_constraints WHERE player_a = ? AND player_b = ?");
+      for (const rule of rules) {
+        const other = rule.player_a === source.id ? rule.player_b : rule.player_a;
+        if (other === target.id || existing.get(Math.min(other, target.id), Math.max(other, target.id))) continue;
+        saveConstraint(target.id, other, rule.kind, Boolean(rule.hard));
+      }
+      db.prepare("DELETE FROM players WHERE id = ?").run(source.id);
+      return promoteWaitlisted(gameId);
+    }).immediate();
+
+    broadcast(groupId, { type: "PLAYERS_UPDATED" });
+    for (const signup of promoted) {
+      broadcast(groupId, { type: "SIGNUP_PROMOTED", data: signup });
+    }
+    res.json(target);
+  });
+
+  // Issues a new signup link, e.g. when the old one was shared by mistake
+  api.post("/players/:id/token", requireOrganizer, (req, res) => {
+    const groupId = getGroup(res).id;
+    const result = db.prepare("UPDATE players SET token = ? WHERE id = ? AND group_id = ?").run(createToken(), req.params.id, groupId);
+    if (result.changes === 0) {
+      return res.status(404).json({ error: "Hráč neexistuje", code: "NOT_FOUND" });
+    }
+    res.json(getPlayer(req.params.id, groupId));
+  });
+
+  // Rating history of one player, optionally limited to games on or after ?from=YYYY-MM-DD
+  api.get("/players/:id/ratings", (req, res) => {
+    const from = typeof req.query.from === "string" ? req.query.from : "0000-00-00";
+    const changes = db.prepare(`
+      SELECT rc.*, g.date
+      FROM rating_changes rc
+      JOIN games g ON g.id = rc.game_id
+      WHERE rc.player_id = ? AND g.group_id = ? AND g.date >= ?
+      ORDER BY g.date, rc.id
+    `).all(req.params.id, getGroup(res).id, from);
+    res.json(changes);
+  });
+
+  // Keep-together / keep-apart rules for the team draw
+  api.get("/constraints", requireOrganizer, (req, res) => {
+    const rules = db.prepare(`
+      SELECT c.* FROM player_constraints c
+      JOIN players p ON p.id = c.player_a
+      WHERE p.group_id = ?
+      ORDER BY c.id
+    `).all(getGroup(res).id);
+    res.json(rules.map(toConstraint));
+  });
+
+  api.post("/constraints", requireOrganizer, (req, res) => {
+    const groupId = getGroup(res).id;
+    const { kind, hard = false } = req.body;
+    const playerA = getPlayer(req.body.playerA, groupId);
+    const playerB = getPlayer(req.body.playerB, groupId);
+    if (!playerA || !playerB) {
+      return res.status(404).json({ error: "Hráč neexistuje", code: "NOT_FOUND" });
+    }
+    if (playerA.id === playerB.id || !CONSTRAINT_KINDS.includes(kind) || typeof hard !== "boolean") {
+      return res.status(400).json({ error: "Neplatné pravidlo", code: "INVALID_INPUT" });
+    }
+    saveConstraint(playerA.id, playerB.id, kind, hard);
+    const rule = db.prepare("SELECT * FROM player_constraints WHERE player_a = ? AND player_b = ?")
+      .get(Math.min(playerA.id, playerB.id), Math.max(playerA.id, playerB.id));
+    res.json(toConstraint(rule));
+  });
+
+  api.delete("/constraints/:id", requireOrganizer, (req, res) => {
+    const result = db.prepare("DELETE FROM player_constraints WHERE id = ? AND player_a IN (SELECT id FROM players WHERE group_id = ?)")
+      .run(req.params.id, getGroup(res).id);
+    if (result.changes === 0) {
+      return res.status(404).json({ error: "Pravidlo neexistuje", code: "NOT_FOUND" });
+    }
+    res.json({ success: true });
   });
 
-  app.post("/api/current-game/signup", (req, res) => {
-    const { name, position } = req.body;
-    // Check if already signed up
-    const existing = db.prepare("SELECT * FROM current_game WHERE name = ?").get(name);
+  api.get("/current-game", (req, res) => {
+    const groupId = getGroup(res).id;
+    res.json(getSignups(getOpenGame(groupId).id));
+  });
+
+  api.get("/games/current", (req, res) => {
+    const groupId = getGroup(res).id;
+    res.json(getOpenGame(groupId));
+  });
+
+  // Past games with the roster and teams they were played with, newest first
+  api.get("/games", (req, res) => {
+    const games = db.prepare("SELECT * FROM games WHERE group_id = ? AND status = 'closed' ORDER BY date DESC, id DESC").all(getGroup(res).id).map(toGame);
+    const roster = db.prepare(`${SIGNUP_SELECT} WHERE cg.game_id = ? AND cg.waitlisted = 0 ORDER BY cg.team, cg.position, name`);
+    const history: GameWithRoster[] = games.map(game => ({
+      ...game,
+      players: roster.all(game.id).map(toGamePlayer),
+    }));
+    res.json(history);
+  });
+
+  api.patch("/games/:id", requireOrganizer, (req, res) => {
+    const groupId = getGroup(res).id;
+    const game = getGame(req.params.id, groupId);
+    if (!game) {
+      return res.status(404).json({ error: "Zápas neexistuje", code: "NOT_FOUND" });
+    }
+    const { date = game.date, venue = game.venue, start_time = game.start_time, ice_cost = game.ice_cost } = req.body;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return res.status(400).json({ error: "Neplatný dátum zápasu", code: "INVALID_INPUT" });
+    }
+    if (start_time !== null && !/^([01]\d|2[0-3]):[0-5]\d$/.test(start_time)) {
+      return res.status(400).json({ error: "Neplatný čas zápasu", code: "INVALID_INPUT" });
+    }
+    const format = req.body.format === undefined ? game.format : parseFormat(req.body.format);
+    if (!format) {
+      return res.status(400).json({ error: "Neplatný formát zápasu", code: "INVALID_INPUT" });
+    }
+    if (ice_cost !== null && (!Number.isInteger(ice_cost) || ice_cost < 0)) {
+      return res.status(400).json({ error: "Neplatná cena ľadu", code: "INVALID_INPUT" });
+    }
+    if (req.body.format !== undefined && game.status !== "open") {
+      return res.status(409).json({ error: "Formát odohraného zápasu sa nedá zmeniť", code: "INVALID_INPUT" });
+    }
+
+    // Players of teams the new format no longer has go back to the unassigned pool,
+    // and a bigger format lets waiting players in
+    const promoted = db.transaction(() => {
+      db.prepare("UPDATE games SET date = ?, venue = ?, start_time = ?, format = ?, ice_cost = ? WHERE id = ?").run(date, venue, start_time, JSON.stringify(format), ice_cost, game.id);
+      if (game.status === "closed") chargeGame(game.id);
+      const teamIds = JSON.stringify(format.teams.map(team => team.id));
+      db.prepare("UPDATE current_game SET team = NULL, locked = 0, played_position = NULL, line = NULL WHERE game_id = ? AND team NOT IN (SELECT value FROM json_each(?))").run(game.id, teamIds);
+      return game.status === "open" ? promoteWaitlisted(game.id) : [];
+    }).immediate();
+    // A scheduled game keeps its signup window relative to the new start
+    if (game.signups_open_at && start_time) {
+      const windows = gameWindows(date, { ...getSchedule(groupId), time: start_time });
+      db.prepare("UPDATE games SET signups_open_at = ?, signups_lock_at = ?, draw_at = ? WHERE id = ?")
+        .run(windows.signups_open_at, windows.signups_lock_at, windows.draw_at, game.id);
+    }
+    const updated = getGame(game.id, groupId)!;
+    if (game.status === "open") {
+      broadcast(groupId, { type: "GAME_UPDATED", data: updated });
+      for (const signup of promoted) {
+        broadcast(groupId, { type: "SIGNUP_PROMOTED", data: signup });
+      }
+      if (req.body.format !== undefined) {
+        broadcast(groupId, { type: "TEAMS_UPDATED", data: getSignups(game.id) });
+      }
+    }
+    res.json(updated);
+  });
+
+  // Runs as an IMMEDIATE transaction so simultaneous signups are decided one after another
+  const signUp = db.transaction((gameId: number, playerId: number | null, name: string, position: Position): GamePlayer => {
+    const existing = playerId === null
+      ? db.prepare("SELECT id FROM current_game WHERE game_id = ? AND player_id IS NULL AND name = ? COLLATE NOCASE").get(gameId, name)
+      : db.prepare("SELECT id FROM current_game WHERE game_id = ? AND player_id = ?").get(gameId, playerId);
     if (existing) {
-      return res.status(400).json({ error: "Hráč je už nahlásený" });
+      throw new ApiError(409, "ALREADY_SIGNED_UP", "Hráč je už nahlásený");
+    }
+    // Over the cap the player joins the waitlist for their position instead of being turned away
+    const secondary = playerId === null ? [] : getPlayer(playerId)!.secondary_positions;
+    const waitlisted = !hasRoom(gameId, { position, secondary });
+    const result = db.prepare("INSERT INTO current_game (game_id, player_id, name, position, waitlisted) VALUES (?, ?, ?, ?, ?)").run(gameId, playerId, name, position, Number(waitlisted));
+    return { id: Number(result.lastInsertRowid), player_id: playerId, name, position, team: null, played_position: null, line: null, waitlisted, locked: false, no_show: false };
+  });
+
+  // Signs up a registered player ({ playerId }) or a guest without a player record ({ name, position }).
+  // Players using their personal link can only sign up themselves.
+  api.post("/current-game/signup", (req, res) => {
+    const groupId = getGroup(res).id;
+    const identity = getIdentity(res);
+    if (identity.role === "viewer") {
+      return res.status(403).json({ error: "Na prihlásenie potrebujete osobný odkaz", code: "FORBIDDEN" });
+    }
+    const requestedId = identity.role === "player" ? identity.player!.id : req.body.playerId;
+    let playerId: number | null = null;
+    let name = typeof req.body.name === "string" ? req.body.name.trim() : "";
+    let { position } = req.body;
+    if (requestedId !== undefined) {
+      const player = getPlayer(requestedId, groupId);
+      if (!player) {
+        return res.status(404).json({ error: "Hráč neexistuje", code: "NOT_FOUND" });
+      }
+      playerId = player.id;
+      name = player.name;
+      // Only the organizer may sign a player up for another position
+      position = identity.role === "organizer" ? position ?? player.position : player.position;
+    }
+    if (!name) {
+      return res.status(400).json({ error: "Chýba meno hráča", code: "INVALID_NAME" });
+    }
+    if (!POSITIONS.includes(position)) {
+      return res.status(400).json({ error: "Neplatná pozícia", code: "INVALID_POSITION" });
+    }
+
+    const game = getOpenGame(groupId);
+    const windowError = identity.role === "organizer" ? null : signupWindowError(game);
+    if (windowError) {
+      return sendError(res, windowError);
+    }
+
+    try {
+      const signup = db.transaction(() => {
+        const signup = signUp(game.id, playerId, name, position);
+        recordAudit(groupId, identity, "signup", game.id, `Nahlásený ${name}`, null, [signup]);
+        return signup;
+      }).immediate();
+      broadcast(groupId, { type: "SIGNUP_UPDATE", data: signup });
+      notifyWebhooks(groupId, "signup", { game_id: game.id, signup });
+      res.json(signup);
+    } catch (error) {
+      sendError(res, error);
     }
-    
-    const result = db.prepare("INSERT INTO current_game (name, position) VALUES (?, ?)").run(name, position);
-    const signup = { id: result.lastInsertRowid, name, position, team: null };
-    
-    broadcast({ type: "SIGNUP_UPDATE", data: signup });
-    res.json(signup);
   });
 
-  app.post("/api/current-game/remove", (req, res) => {
+  // Reads "+1" and "-1" replies from a copied group chat ({ text }) and matches their authors
+  // to active players; nobody is signed up until the organizer confirms the list
+  api.post("/current-game/chat", requireOrganizer, (req, res) => {
+    const groupId = getGroup(res).id;
+    if (typeof req.body.text !== "string") {
+      return res.status(400).json({ error: "Chýba text", code: "INVALID_INPUT" });
+    }
+    const players = db.prepare("SELECT id, name FROM players WHERE group_id = ? AND active = 1").all(groupId) as { id: number, name: string }[];
+    const signedUp = new Set((db.prepare("SELECT player_id FROM current_game WHERE game_id = ? AND player_id IS NOT NULL").all(getOpenGame(groupId).id) as { player_id: number }[])
+      .map(row => row.player_id));
+    const replies = parseChat(req.body.text).map(({ author, intent }): ChatSignup => {
+      const { matches, player_id } = matchName(author, players);
+      return { author, intent, matches, player_id, signed_up: player_id !== null && signedUp.has(player_id) };
+    });
+    res.json(replies);
+  });
+
+  // Signs up several players at once ({ playerIds }); those already signed up are skipped
+  api.post("/current-game/signup/bulk", requireOrganizer, (req, res) => {
+    const groupId = getGroup(res).id;
+    const { playerIds } = req.body;
+    if (!Array.isArray(playerIds) || !playerIds.every(Number.isInteger)) {
+      return res.status(400).json({ error: "Neplatný zoznam hráčov", code: "INVALID_INPUT" });
+    }
+    const game = getOpenGame(groupId);
+    const signups = db.transaction(() => {
+      const signups: GamePlayer[] = [];
+      for (const id of new Set<number>(playerIds)) {
+        const player = getPlayer(id, groupId);
+        if (!player) throw new ApiError(404, "NOT_FOUND", "Hráč neexistuje");
+        if (db.prepare("SELECT id FROM current_game WHERE game_id = ? AND player_id = ?").get(game.id, player.id)) continue;
+        signups.push(signUp(game.id, player.id, player.name, player.position));
+      }
+      if (signups.length > 0) {
+        recordAudit(groupId, getIdentity(res), "signup", game.id, `Nahlásení zo skupiny (${signups.length})`, null, signups);
+      }
+      return signups;
+    });
+    try {
+      const added = signups.immediate();
+      for (const signup of added) {
+        broadcast(groupId, { type: "SIGNUP_UPDATE", data: signup });
+        notifyWebhooks(groupId, "signup", { game_id: game.id, signup });
+      }
+      res.json(added);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  api.post("/current-game/remove", (req, res) => {
+    const groupId = getGroup(res).id;
     const { id } = req.body;
-    db.prepare("DELETE FROM current_game WHERE id = ?").run(id);
-    broadcast({ type: "SIGNUP_REMOVED", id });
-    res.json({ success: true });
+    const identity = getIdentity(res);
+    const gameId = getOpenGame(groupId).id;
+    const removeSignup = db.transaction(() => {
+      if (identity.role !== "organizer") {
+        const windowError = signupWindowError(getOpenGame(groupId));
+        if (windowError) throw windowError;
+        const signup = db.prepare("SELECT player_id FROM current_game WHERE id = ?").get(id) as { player_id: number | null } | undefined;
+        if (!signup || signup.player_id !== identity.player?.id) {
+          throw new ApiError(403, "FORBIDDEN", "Môžete odhlásiť len seba");
+        }
+      }
+      const signup = db.prepare(`${SIGNUP_SELECT} WHERE cg.id = ? AND cg.game_id = ?`).get(id, gameId) as GamePlayer | undefined;
+      if (!signup) {
+        throw new ApiError(404, "NOT_SIGNED_UP", "Hráč nie je nahlásený");
+      }
+      if (hasGoals(signup.id)) {
+        throw new ApiError(409, "INVALID_INPUT", `${signup.name} už má zapísaný gól; najprv ho zmažte`);
+      }
+      db.prepare("DELETE FROM current_game WHERE id = ?").run(id);
+      // Kept for the attendance report, timed against the game start
+      const game = getOpenGame(groupId);
+      const now = new Date();
+      const minutesBefore = game.start_time ? Math.round((gameStart(game.date, game.start_time).getTime() - now.getTime()) / 60_000) : null;
+      const cancellation = db.prepare(`
+        INSERT INTO cancellations (game_id, player_id, name, position, waitlisted, cancelled_at, minutes_before, removed_by)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(gameId, signup.player_id, signup.name, signup.position, Number(signup.waitlisted), now.toISOString(), minutesBefore, identity.role);
+      const promoted = promoteWaitlisted(gameId);
+      recordAudit(groupId, identity, "signup_removed", gameId, `Odhlásený ${signup.name}`, signup, {
+        promoted: promoted.map(p => p.id),
+        cancellation_id: Number(cancellation.lastInsertRowid),
+      });
+      return { signup, promoted, minutesBefore };
+    });
+
+    try {
+      const { signup, promoted, minutesBefore } = removeSignup.immediate();
+      broadcast(groupId, { type: "SIGNUP_REMOVED", id });
+      notifyWebhooks(groupId, "cancellation", { game_id: gameId, signup, minutes_before: minutesBefore });
+      for (const signup of promoted) {
+        broadcast(groupId, { type: "SIGNUP_PROMOTED", data: signup });
+      }
+      res.json({ success: true, promoted });
+    } catch (error) {
+      sendError(res, error);
+    }
   });
 
-  app.post("/api/current-game/split", (req, res) => {
-    const { teams } = req.body; // Array of { id, team }
-    const update = db.prepare("UPDATE current_game SET team = ? WHERE id = ?");
+  // Manual placements lock the player to the team unless { locked: false } is given; unassigned players are never locked
+  api.post("/current-game/split", requireOrganizer, (req, res) => {
+    const groupId = getGroup(res).id;
+    const { teams } = req.body; // Array of { id, team, locked? }
+    // Taking a player out of the teams also drops the position the draw gave them, and a player
+    // changing teams leaves their line
+    const update = db.prepare(`
+      UPDATE current_game SET team = ?, locked = ?, played_position = IIF(? IS NULL, NULL, played_position), line = IIF(team IS ?, line, NULL)
+      WHERE id = ? AND game_id = ? AND waitlisted = 0
+    `);
+    const valid = Array.isArray(teams) && teams.every(item =>
+      Number.isInteger(item?.id) && (item.team === null || typeof item.team === "string") && [undefined, true, false].includes(item.locked));
+    if (!valid) {
+      return res.status(400).json({ error: "Neplatné rozdelenie tímov", code: "INVALID_INPUT" });
+    }
+    const { id: gameId, format } = getOpenGame(groupId);
     
-    const transaction = db.transaction((teamsList) => {
+    const transaction = db.transaction((teamsList: { id: number, team: Team | null, locked?: boolean }[]) => {
+      const before = getTeamPlacements(gameId);
       for (const item of teamsList) {
-        update.run(item.team, item.id);
+        if (item.team !== null && !format.teams.some(team => team.id === item.team)) {
+          throw new ApiError(400, "INVALID_INPUT", "Neznámy tím");
+        }
+        const locked = item.team !== null && item.locked !== false;
+        if (update.run(item.team, Number(locked), item.team, item.team, item.id, gameId).changes === 0) {
+          throw new ApiError(409, "NOT_ON_ROSTER", "Hráč nie je na súpiske zápasu");
+        }
       }
+      recordTeamChange(getIdentity(res), gameId, "Tímy upravené ručne", before);
     });
     
-    transaction(teams);
-    broadcast({ type: "TEAMS_UPDATED" });
+    try {
+      transaction.immediate(teams);
+    } catch (error) {
+      return sendError(res, error);
+    }
+    broadcast(groupId, { type: "TEAMS_UPDATED", data: getSignups(gameId) });
+    res.json({ success: true });
+  });
+
+  // Moves players between lines by hand ({ lines: [{ id, line }] }); line null takes a player out of the lines
+  api.post("/current-game/lines", requireOrganizer, (req, res) => {
+    const groupId = getGroup(res).id;
+    const { lines } = req.body;
+    const valid = Array.isArray(lines) && lines.every(item =>
+      Number.isInteger(item?.id) && (item.line === null || (Number.isInteger(item.line) && item.line >= 1)));
+    if (!valid) {
+      return res.status(400).json({ error: "Neplatná formácia", code: "INVALID_INPUT" });
+    }
+    const { id: gameId } = getOpenGame(groupId);
+    const signup = db.prepare("SELECT team, COALESCE(played_position, position) AS position FROM current_game WHERE id = ? AND game_id = ? AND waitlisted = 0");
+    const update = db.prepare("UPDATE current_game SET line = ? WHERE id = ?");
+
+    const transaction = db.transaction((linesList: { id: number, line: number | null }[]) => {
+      const before = getTeamPlacements(gameId);
+      for (const item of linesList) {
+        const row = signup.get(item.id, gameId) as { team: Team | null; position: Position } | undefined;
+        if (!row || row.team === null) {
+          throw new ApiError(409, "NOT_ON_ROSTER", "Hráč nie je v žiadnom tíme");
+        }
+        if (item.line !== null && !LINE_SIZES[row.position]) {
+          throw new ApiError(400, "INVALID_POSITION", "Brankári nehrajú vo formáciách");
+        }
+        update.run(item.line, item.id);
+      }
+      recordTeamChange(getIdentity(res), gameId, "Formácie upravené ručne", before);
+    });
+
+    try {
+      transaction.immediate(lines);
+    } catch (error) {
+      return sendError(res, error);
+    }
+    broadcast(groupId, { type: "TEAMS_UPDATED", data: getSignups(gameId) });
+    res.json({ success: true });
+  });
+
+  // Builds the lines of the teams as they stand now, e.g. after players were moved by hand
+  api.post("/current-game/lines/generate", requireOrganizer, (req, res) => {
+    const groupId = getGroup(res).id;
+    const { id: gameId } = getOpenGame(groupId);
+    db.transaction(() => {
+      const before = getTeamPlacements(gameId);
+      assignLines(gameId);
+      recordTeamChange(getIdentity(res), gameId, "Nové formácie", before);
+    }).immediate();
+    broadcast(groupId, { type: "TEAMS_UPDATED", data: getSignups(gameId) });
+    res.json({ success: true });
+  });
+
+  // Draws the teams of the group's open game and stores them along with a record of the draw,
+  // so anyone can re-run it later; without force every team needs its goalie
+  const runDraw = (groupId: number, force: boolean, actor: Identity | "schedule") => {
+    const triggeredBy: DrawTrigger = actor === "schedule" ? "schedule" : "organizer";
+    const game = getOpenGame(groupId);
+    // Guests have no rating of their own and count as an average player and play only their position.
+    // Locked players stay where they are, including a position the last draw moved them to.
+    const rows = db.prepare(`
+      SELECT
+        cg.id, cg.player_id, COALESCE(p.name, cg.name) AS name, COALESCE(p.rating, ?) AS rating, COALESCE(p.secondary_positions, '[]') AS secondary,
+        CASE WHEN cg.locked = 1 THEN COALESCE(cg.played_position, cg.position) ELSE cg.position END AS position,
+        CASE WHEN cg.locked = 1 THEN cg.team END AS locked
+      FROM current_game cg
+      LEFT JOIN players p ON p.id = cg.player_id
+      WHERE cg.game_id = ? AND cg.waitlisted = 0
+    `).all(DEFAULT_RATING, game.id) as any[];
+    const candidates: DrawRecord["candidates"] = rows.map(row => ({ ...row, secondary: JSON.parse(row.secondary) }));
+
+    if (candidates.length < 2) {
+      throw new ApiError(400, "NOT_ENOUGH_PLAYERS", "Potrebujete aspoň 2 hráčov na rozlosovanie.");
+    }
+    const canPlayGoal = candidates.filter(p => p.position === "goalie" || p.secondary.includes("goalie"));
+    if (!force && canPlayGoal.length < positionCapacity(game.format, "goalie")) {
+      throw new ApiError(409, "NOT_ENOUGH_GOALIES", "Chýbajú brankári pre všetky tímy.");
+    }
+
+    // Rules apply to signups of the two players they name
+    const signupOf = new Map(candidates.filter(c => c.player_id !== null).map(c => [c.player_id, c.id]));
+    const constraints = (db.prepare("SELECT * FROM player_constraints").all() as PlayerConstraint[]).map(toConstraint);
+    const rules: DrawRule[] = constraints
+      .filter(c => signupOf.has(c.player_a) && signupOf.has(c.player_b))
+      .map(c => ({ id: c.id, a: signupOf.get(c.player_a)!, b: signupOf.get(c.player_b)!, kind: c.kind, hard: c.hard }));
+
+    const repeats = recentRepeats(groupId, signupOf, getVariety(groupId));
+
+    const seed = createSeed();
+    const result = drawTeams(game.format, candidates, rules, seed, repeats);
+    const unmet = constraints.filter(c => result.unmet.some(rule => rule.id === c.id));
+    const unmetHard = unmet.filter(c => c.hard);
+    if (unmetHard.length > 0) {
+      const nameOf = (id: number) => getPlayer(id)?.name;
+      const pairs = unmetHard.map(c => `${nameOf(c.player_a)} + ${nameOf(c.player_b)}`).join(", ");
+      throw new ApiError(409, "CONSTRAINTS_UNMET", `Povinné pravidlá sa nedajú splniť: ${pairs}`);
+    }
+    const update = db.prepare("UPDATE current_game SET team = ?, played_position = ? WHERE id = ? AND locked = 0");
+    const drawId = db.transaction(() => {
+      const before = getTeamPlacements(game.id);
+      for (const item of result.teams) {
+        update.run(item.team, item.played_position, item.id);
+      }
+      assignLines(game.id);
+      recordTeamChange(actor, game.id, "Žrebovanie tímov", before);
+      return db.prepare("INSERT INTO draws (game_id, seed, created_at, triggered_by, input, result) VALUES (?, ?, ?, ?, ?, ?)").run(
+        game.id, seed, new Date().toISOString(), triggeredBy,
+        JSON.stringify({ format: game.format, candidates, rules, repeats }),
+        JSON.stringify({ teams: result.teams, balance: result.balance }),
+      ).lastInsertRowid;
+    })();
+
+    const signups = getSignups(game.id);
+    broadcast(groupId, { type: "TEAMS_UPDATED", data: signups, balance: result.balance, freshness: result.freshness, unmet });
+    notifyWebhooks(groupId, "teams_drawn", { game_id: game.id, draw_id: Number(drawId), signups: signups.filter(signup => !signup.waitlisted), balance: result.balance });
+    return { draw_id: Number(drawId), seed, teams: result.teams, balance: result.balance, freshness: result.freshness, unmet };
+  };
+
+  api.post("/current-game/draw", requireOrganizer, (req, res) => {
+    const groupId = getGroup(res).id;
+    try {
+      res.json(runDraw(groupId, Boolean(req.body?.force), getIdentity(res)));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Every draw made for a game, newest first, open to anyone who wants to check them
+  api.get("/games/:id/draws", (req, res) => {
+    const groupId = getGroup(res).id;
+    if (!getGame(req.params.id, groupId)) {
+      return res.status(404).json({ error: "Zápas neexistuje", code: "NOT_FOUND" });
+    }
+    const draws = db.prepare("SELECT * FROM draws WHERE game_id = ? ORDER BY id DESC").all(req.params.id);
+    res.json(draws.map(toDraw));
+  });
+
+  // Runs a stored draw again from its input and seed; identical tells whether it produced the same teams
+  api.get("/draws/:id/replay", (req, res) => {
+    const row = db.prepare("SELECT d.* FROM draws d JOIN games g ON g.id = d.game_id WHERE d.id = ? AND g.group_id = ?").get(req.params.id, getGroup(res).id);
+    if (!row) {
+      return res.status(404).json({ error: "Žrebovanie neexistuje", code: "NOT_FOUND" });
+    }
+    const draw = toDraw(row);
+    const result = drawTeams(draw.format, draw.candidates, draw.rules, draw.seed, draw.repeats);
+    res.json({
+      teams: result.teams,
+      balance: result.balance,
+      identical: JSON.stringify(result.teams) === JSON.stringify(draw.teams),
+    });
+  });
+
+  // Drawn teams of a game ready to print, or an error when nobody has a team yet
+  const lineupOf = (groupId: number, id: string) => {
+    const game = getGame(id, groupId);
+    if (!game) {
+      throw new ApiError(404, "NOT_FOUND", "Zápas neexistuje");
+    }
+    const signups = getSignups(game.id);
+    if (!signups.some(signup => signup.team !== null)) {
+      throw new ApiError(409, "NOT_DRAWN", "Tímy ešte nie sú rozlosované");
+    }
+    return { game, lineup: buildLineup(game, signups) };
+  };
+
+  // Team card to post in the group chat
+  api.get("/games/:id/card.png", (req, res) => {
+    try {
+      const { game, lineup } = lineupOf(getGroup(res).id, req.params.id);
+      res.type("png").attachment(`timy-${game.date}.png`).send(renderTeamCard(lineup));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Printable A4 lineup sheet
+  api.get("/games/:id/lineup.pdf", async (req, res) => {
+    try {
+      const { game, lineup } = lineupOf(getGroup(res).id, req.params.id);
+      res.type("pdf").attachment(`zostava-${game.date}.pdf`).send(await renderLineupSheet(lineup));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  api.get("/webhooks", requireOrganizer, (req, res) => {
+    res.json(db.prepare("SELECT * FROM webhooks WHERE group_id = ? ORDER BY id").all(getGroup(res).id).map(toWebhook));
+  });
+
+  // Webhook fields from a request, checked; null when they are not valid
+  const parseWebhook = (body: any, current?: Webhook) => {
+    const { url = current?.url, events = current?.events, active = current?.active ?? true } = body;
+    let valid = typeof url === "string" && typeof active === "boolean";
+    try {
+      valid &&= ["http:", "https:"].includes(new URL(url).protocol);
+    } catch {
+      valid = false;
+    }
+    if (!valid || !Array.isArray(events) || !events.every(e => WEBHOOK_EVENTS.includes(e)) || new Set(events).size !== events.length) {
+      return null;
+    }
+    return { url: url as string, events: events as WebhookEvent[], active: active as boolean };
+  };
+
+  // { url, events }; the secret for checking signatures is generated here
+  api.post("/webhooks", requireOrganizer, (req, res) => {
+    const webhook = parseWebhook(req.body);
+    if (!webhook) {
+      return res.status(400).json({ error: "Neplatný webhook", code: "INVALID_INPUT" });
+    }
+    const result = db.prepare("INSERT INTO webhooks (group_id, url, secret, events, active, created_at) VALUES (?, ?, ?, ?, ?, ?)")
+      .run(getGroup(res).id, webhook.url, createToken(), JSON.stringify(webhook.events), Number(webhook.active), new Date().toISOString());
+    res.json(toWebhook(db.prepare("SELECT * FROM webhooks WHERE id = ?").get(result.lastInsertRowid)));
+  });
+
+  api.patch("/webhooks/:id", requireOrganizer, (req, res) => {
+    const row = db.prepare("SELECT * FROM webhooks WHERE id = ? AND group_id = ?").get(req.params.id, getGroup(res).id);
+    if (!row) {
+      return res.status(404).json({ error: "Webhook neexistuje", code: "NOT_FOUND" });
+    }
+    const webhook = parseWebhook(req.body, toWebhook(row));
+    if (!webhook) {
+      return res.status(400).json({ error: "Neplatný webhook", code: "INVALID_INPUT" });
+    }
+    db.prepare("UPDATE webhooks SET url = ?, events = ?, active = ? WHERE id = ?")
+      .run(webhook.url, JSON.stringify(webhook.events), Number(webhook.active), req.params.id);
+    res.json(toWebhook(db.prepare("SELECT * FROM webhooks WHERE id = ?").get(req.params.id)));
+  });
+
+  api.delete("/webhooks/:id", requireOrganizer, (req, res) => {
+    const result = db.transaction(() => {
+      db.prepare("DELETE FROM webhook_deliveries WHERE webhook_id IN (SELECT id FROM webhooks WHERE id = ? AND group_id = ?)")
+        .run(req.params.id, getGroup(res).id);
+      return db.prepare("DELETE FROM webhooks WHERE id = ? AND group_id = ?").run(req.params.id, getGroup(res).id);
+    }).immediate();
+    if (result.changes === 0) {
+      return res.status(404).json({ error: "Webhook neexistuje", code: "NOT_FOUND" });
+    }
+    res.json({ success: true });
+  });
+
+  // Latest deliveries of a webhook, newest first
+  api.get("/webhooks/:id/deliveries", requireOrganizer, (req, res) => {
+    const deliveries = db.prepare(`
+      SELECT d.* FROM webhook_deliveries d
+      JOIN webhooks w ON w.id = d.webhook_id
+      WHERE d.webhook_id = ? AND w.group_id = ?
+      ORDER BY d.id DESC LIMIT 50
+    `).all(req.params.id, getGroup(res).id);
+    res.json(deliveries as WebhookDelivery[]);
+  });
+
+  // Sends a 'ping' so the receiver can be checked without waiting for a real event
+  api.post("/webhooks/:id/test", requireOrganizer, async (req, res) => {
+    const groupId = getGroup(res).id;
+    const [deliveryId] = queueWebhooks(groupId, "ping", { message: "Test" }, Number(req.params.id));
+    if (deliveryId === undefined) {
+      return res.status(404).json({ error: "Webhook neexistuje", code: "NOT_FOUND" });
+    }
+    await deliverWebhooks();
+    res.json(db.prepare("SELECT * FROM webhook_deliveries WHERE id = ?").get(deliveryId) as WebhookDelivery);
+  });
+
+  // Sends a failed delivery again, with a fresh set of attempts
+  api.post("/webhook-deliveries/:id/retry", requireOrganizer, async (req, res) => {
+    const result = db.prepare(`
+      UPDATE webhook_deliveries SET status = 'pending', attempts = 0, next_attempt_at = ?
+      WHERE id = ? AND status = 'failed' AND webhook_id IN (SELECT id FROM webhooks WHERE group_id = ?)
+    `).run(new Date().toISOString(), req.params.id, getGroup(res).id);
+    if (result.changes === 0) {
+      return res.status(404).json({ error: "Doručenie neexistuje alebo ešte prebieha", code: "NOT_FOUND" });
+    }
+    await deliverWebhooks();
+    res.json(db.prepare("SELECT * FROM webhook_deliveries WHERE id = ?").get(req.params.id) as WebhookDelivery);
+  });
+
+  // Latest changes first ({ limit } up to 200)
+  api.get("/audit", requireOrganizer, (req, res) => {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+    const entries = db.prepare(`${AUDIT_SELECT} WHERE a.group_id = ? ORDER BY a.id DESC LIMIT ?`).all(getGroup(res).id, limit);
+    res.json(entries.map(toAuditEntry));
+  });
+
+  // Reverts the latest change that was not undone yet and sends every page the restored state
+  api.post("/audit/undo", requireOrganizer, (req, res) => {
+    const groupId = getGroup(res).id;
+    const row = db.prepare(`${AUDIT_SELECT} WHERE a.group_id = ? AND a.action != 'undo' AND NOT EXISTS (SELECT 1 FROM audit_log u WHERE u.undoes = a.id) ORDER BY a.id DESC LIMIT 1`).get(groupId);
+    if (!row) {
+      return res.status(404).json({ error: "Nie je čo vrátiť", code: "NOTHING_TO_UNDO" });
+    }
+    const entry = toAuditEntry(row);
+    try {
+      const undo = undoChange.immediate(entry, getIdentity(res));
+      if (entry.action === "player_added") {
+        broadcast(groupId, { type: "PLAYERS_UPDATED" });
+      }
+      broadcast(groupId, { type: "STATE_RESTORED", data: snapshot(groupId) });
+      res.json(undo);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  api.get("/costs", requireOrganizer, (req, res) => {
+    const groupId = getGroup(res).id;
+    res.json(getCosts(groupId));
+  });
+
+  api.put("/costs", requireOrganizer, (req, res) => {
+    const groupId = getGroup(res).id;
+    const costs: CostSettings = { ...getCosts(groupId), ...req.body };
+    if (
+      !Number.isInteger(costs.iceCost) || costs.iceCost < 0 ||
+      typeof costs.goalieDiscount !== "number" || !(costs.goalieDiscount >= 0 && costs.goalieDiscount <= 100)
+    ) {
+      return res.status(400).json({ error: "Neplatné nastavenie nákladov", code: "INVALID_INPUT" });
+    }
+    setGroupSetting(groupId, "costs", JSON.stringify({ iceCost: costs.iceCost, goalieDiscount: costs.goalieDiscount }));
+    res.json(getCosts(groupId));
+  });
+
+  // Running balance of every player with a charge or a payment, the biggest debt first
+  api.get("/balances", requireOrganizer, (req, res) => {
+    const balances = db.prepare(`
+      SELECT l.player_id, p.name,
+        SUM(IIF(l.kind = 'charge', l.amount, 0)) AS charged,
+        SUM(IIF(l.kind = 'payment', l.amount, 0)) AS paid
+      FROM ledger l
+      JOIN players p ON p.id = l.player_id
+      WHERE p.group_id = ?
+      GROUP BY l.player_id
+    `).all(getGroup(res).id) as Omit<PlayerBalance, "balance">[];
+    res.json(balances
+      .map((row): PlayerBalance => ({ ...row, balance: row.paid - row.charged }))
+      .sort((a, b) => a.balance - b.balance || a.name.localeCompare(b.name)));
+  });
+
+  api.get("/players/:id/ledger", requireOrganizer, (req, res) => {
+    if (!getPlayer(req.params.id, getGroup(res).id)) {
+      return res.status(404).json({ error: "Hráč neexistuje", code: "NOT_FOUND" });
+    }
+    const entries = db.prepare("SELECT * FROM ledger WHERE player_id = ? ORDER BY created_at DESC, id DESC").all(req.params.id) as LedgerEntry[];
+    res.json(entries);
+  });
+
+  api.post("/payments", requireOrganizer, (req, res) => {
+    const { playerId, amount, method, note = "" } = req.body;
+    if (!Number.isInteger(playerId) || !Number.isInteger(amount) || amount <= 0 || !(["cash", "transfer"] as PaymentMethod[]).includes(method) || typeof note !== "string") {
+      return res.status(400).json({ error: "Neplatná platba", code: "INVALID_INPUT" });
+    }
+    if (!db.prepare("SELECT id FROM players WHERE id = ? AND group_id = ?").get(playerId, getGroup(res).id)) {
+      return res.status(404).json({ error: "Hráč neexistuje", code: "NOT_FOUND" });
+    }
+    const result = db.prepare("INSERT INTO ledger (player_id, kind, amount, method, note, created_at) VALUES (?, 'payment', ?, ?, ?, ?)")
+      .run(playerId, amount, method, note.trim(), new Date().toISOString());
+    res.json(db.prepare("SELECT * FROM ledger WHERE id = ?").get(result.lastInsertRowid));
+  });
+
+  // Only payments can be taken back; charges follow the roster and the ice cost of their game
+  api.delete("/payments/:id", requireOrganizer, (req, res) => {
+    const result = db.prepare("DELETE FROM ledger WHERE id = ? AND kind = 'payment' AND player_id IN (SELECT id FROM players WHERE group_id = ?)")
+      .run(req.params.id, getGroup(res).id);
+    if (result.changes === 0) {
+      return res.status(404).json({ error: "Platba neexistuje", code: "NOT_FOUND" });
+    }
+    res.json({ success: true });
+  });
+
+  // Attendance and reliability of every player, for the organizer only
+  api.get("/attendance", requireOrganizer, (req, res) => {
+    const groupId = getGroup(res).id;
+    const report: AttendanceReport = { players: getAttendance(groupId), waitlistByReliability: waitlistByReliability(groupId) };
+    res.json(report);
+  });
+
+  api.put("/attendance/settings", requireOrganizer, (req, res) => {
+    const groupId = getGroup(res).id;
+    const { waitlistByReliability: enabled } = req.body;
+    if (typeof enabled !== "boolean") {
+      return res.status(400).json({ error: "Neplatné nastavenie", code: "INVALID_INPUT" });
+    }
+    setGroupSetting(groupId, "waitlist_by_reliability", enabled ? "1" : "0");
+    broadcast(groupId, { type: "GROUP_UPDATED", data: toGroup(getGroup(res)) });
+    res.json({ waitlistByReliability: enabled });
+  });
+
+  api.get("/games/:id/cancellations", requireOrganizer, (req, res) => {
+    if (!getGame(req.params.id, getGroup(res).id)) {
+      return res.status(404).json({ error: "Zápas neexistuje", code: "NOT_FOUND" });
+    }
+    const cancellations = db.prepare("SELECT * FROM cancellations WHERE game_id = ? ORDER BY id").all(req.params.id);
+    res.json(cancellations.map(toCancellation));
+  });
+
+  // Marks a player on the roster as not having turned up ({ id, no_show }), once the game has started
+  api.post("/games/:id/no-show", requireOrganizer, (req, res) => {
+    const groupId = getGroup(res).id;
+    const game = getGame(req.params.id, groupId);
+    if (!game) {
+      return res.status(404).json({ error: "Zápas neexistuje", code: "NOT_FOUND" });
+    }
+    const started = game.status === "closed" || (game.start_time !== null && gameStart(game.date, game.start_time) <= new Date());
+    if (!started) {
+      return res.status(409).json({ error: "Zápas sa ešte nezačal", code: "INVALID_INPUT" });
+    }
+    if (typeof req.body.no_show !== "boolean") {
+      return res.status(400).json({ error: "Neplatná hodnota", code: "INVALID_INPUT" });
+    }
+    // Players who did not turn up do not share the ice of a closed game, nor its rating changes
+    const result = db.transaction(() => {
+      const result = db.prepare("UPDATE current_game SET no_show = ? WHERE id = ? AND game_id = ? AND waitlisted = 0")
+        .run(Number(req.body.no_show), req.body.id, game.id);
+      if (result.changes > 0 && game.status === "closed") chargeGame(game.id);
+      if (result.changes > 0 && game.scores) recordResult(game, game.scores);
+      return result;
+    }).immediate();
+    if (result.changes === 0) {
+      return res.status(409).json({ error: "Hráč nie je na súpiske zápasu", code: "NOT_ON_ROSTER" });
+    }
     res.json({ success: true });
   });
 
-  app.post("/api/current-game/reset", (req, res) => {
-    db.prepare("DELETE FROM current_game").run();
-    broadcast({ type: "GAME_RESET" });
+  // Seasons that have games with a recorded result, latest first
+  api.get("/stats/seasons", (req, res) => {
+    const dates = db.prepare("SELECT DISTINCT date FROM games WHERE group_id = ? AND scores IS NOT NULL").all(getGroup(res).id) as { date: string }[];
+    res.json([...new Set(dates.map(row => seasonOf(row.date)))].sort((a, b) => b - a));
+  });
+
+  // Player statistics over the games with a recorded result, limited by ?season=<start year> and/or ?from=&to= dates
+  api.get("/stats", (req, res) => {
+    const groupId = getGroup(res).id;
+    const validDate = (date: unknown) => date === undefined || (typeof date === "string" && /^\d{4}-\d{2}-\d{2}$/.test(date));
+    const season = req.query.season === undefined ? null : Number(req.query.season);
+    if ((season !== null && !Number.isInteger(season)) || !validDate(req.query.from) || !validDate(req.query.to)) {
+      return res.status(400).json({ error: "Neplatné obdobie", code: "INVALID_INPUT" });
+    }
+    const range = season === null ? null : seasonRange(season);
+    // An explicit date range narrows the season down
+    const latest = (a?: string, b?: string) => (a && b ? (a > b ? a : b) : a ?? b) ?? null;
+    const earliest = (a?: string, b?: string) => (a && b ? (a < b ? a : b) : a ?? b) ?? null;
+    const from = latest(range?.from, req.query.from as string | undefined);
+    const to = earliest(range?.to, req.query.to as string | undefined);
+
+    const rows = db.prepare(`
+      SELECT cg.player_id, p.name, g.id AS game_id, g.date, cg.team, COALESCE(cg.played_position, cg.position) AS position, g.scores
+      FROM current_game cg
+      JOIN games g ON g.id = cg.game_id
+      JOIN players p ON p.id = cg.player_id
+      WHERE g.group_id = ? AND g.scores IS NOT NULL AND cg.team IS NOT NULL AND cg.waitlisted = 0 AND cg.no_show = 0
+        AND (? IS NULL OR g.date >= ?) AND (? IS NULL OR g.date <= ?)
+    `).all(groupId, from, from, to, to) as any[];
+    const appearances: Appearance[] = rows.map(row => ({ ...row, scores: JSON.parse(row.scores) }));
+
+    // Goals name signups; players are looked up through them, guests count for nobody
+    const goalRows = db.prepare(`
+      SELECT go.scorer_id, go.assist_ids
+      FROM goals go
+      JOIN games g ON g.id = go.game_id
+      WHERE g.group_id = ? AND g.scores IS NOT NULL AND (? IS NULL OR g.date >= ?) AND (? IS NULL OR g.date <= ?)
+    `).all(groupId, from, from, to, to) as { scorer_id: number; assist_ids: string }[];
+    const playerOf = db.prepare("SELECT player_id FROM current_game WHERE id = ?").pluck();
+    const goals: ScoredGoal[] = goalRows.map(row => ({
+      scorer: playerOf.get(row.scorer_id) as number | null ?? null,
+      assists: (JSON.parse(row.assist_ids) as number[]).map(id => playerOf.get(id) as number | null).filter((id): id is number => id != null),
+    }));
+
+    const players = playerStats(appearances, goals);
+    res.json({ from, to, players, leaders: statsLeaders(players) });
+  });
+
+  // Live mode: the organizer runs the period clock and logs the goals, everyone else follows the score
+  api.get("/current-game/goals", (req, res) => {
+    const groupId = getGroup(res).id;
+    const goals = db.prepare("SELECT * FROM goals WHERE game_id = ? ORDER BY id").all(getOpenGame(groupId).id);
+    res.json(goals.map(toGoal));
+  });
+
+  // { action: 'start' | 'pause' | 'next_period' }; starting the clock the first time puts the game in live mode
+  api.post("/current-game/clock", requireOrganizer, (req, res) => {
+    const groupId = getGroup(res).id;
+    const game = getOpenGame(groupId);
+    const now = new Date();
+    let clock: GameClock;
+    switch (req.body.action) {
+      case "start":
+        clock = startClock(game.clock, now);
+        break;
+      case "pause":
+      case "next_period":
+        if (!game.clock) {
+          return res.status(409).json({ error: "Zápas ešte nezačal", code: "INVALID_INPUT" });
+        }
+        clock = req.body.action === "pause" ? pauseClock(game.clock, now) : nextPeriod(game.clock);
+        break;
+      default:
+        return res.status(400).json({ error: "Neznáma akcia", code: "INVALID_INPUT" });
+    }
+    db.prepare("UPDATE games SET clock = ? WHERE id = ?").run(JSON.stringify(clock), game.id);
+    broadcast(groupId, { type: "CLOCK_UPDATED", game_id: game.id, clock });
+    res.json(clock);
+  });
+
+  // Records a goal ({ scorer, assists? }) for the scorer's team at the current clock time
+  api.post("/current-game/goals", requireOrganizer, (req, res) => {
+    const groupId = getGroup(res).id;
+    const game = getOpenGame(groupId);
+    const { scorer, assists = [] } = req.body;
+    if (!Number.isInteger(scorer) || !Array.isArray(assists) || !assists.every(id => Number.isInteger(id))) {
+      return res.status(400).json({ error: "Neplatný gól", code: "INVALID_INPUT" });
+    }
+    const teamOf = db.prepare("SELECT team FROM current_game WHERE id = ? AND game_id = ? AND waitlisted = 0");
+    const team = (teamOf.get(scorer, game.id) as { team: Team | null } | undefined)?.team;
+    if (!team) {
+      return res.status(409).json({ error: "Strelec nie je v žiadnom tíme", code: "NOT_ON_ROSTER" });
+    }
+    if (
+      assists.length > 2 || new Set([scorer, ...assists]).size !== assists.length + 1 ||
+      !assists.every(id => (teamOf.get(id, game.id) as { team: Team | null } | undefined)?.team === team)
+    ) {
+      return res.status(400).json({ error: "Asistovať môžu najviac dvaja spoluhráči strelca", code: "INVALID_INPUT" });
+    }
+    const now = new Date();
+    const result = db.prepare("INSERT INTO goals (game_id, team, scorer_id, assist_ids, period, time, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)").run(
+      game.id, team, scorer, JSON.stringify(assists),
+      game.clock?.period ?? null, game.clock ? clockSeconds(game.clock, now) : null, now.toISOString(),
+    );
+    const goal = toGoal(db.prepare("SELECT * FROM goals WHERE id = ?").get(result.lastInsertRowid));
+    broadcast(groupId, { type: "GOAL_SCORED", data: goal });
+    res.json(goal);
+  });
+
+  api.delete("/current-game/goals/:id", requireOrganizer, (req, res) => {
+    const groupId = getGroup(res).id;
+    const result = db.prepare("DELETE FROM goals WHERE id = ? AND game_id = ?").run(req.params.id, getOpenGame(groupId).id);
+    if (result.changes === 0) {
+      return res.status(404).json({ error: "Gól neexistuje", code: "NOT_FOUND" });
+    }
+    broadcast(groupId, { type: "GOAL_REMOVED", id: Number(req.params.id) });
     res.json({ success: true });
   });
 
+  // Stops the clock and saves the score from the goal log as the game's result
+  api.post("/current-game/end", requireOrganizer, (req, res) => {
+    const groupId = getGroup(res).id;
+    const game = getOpenGame(groupId);
+    const goals = db.prepare("SELECT team, COUNT(*) AS goals FROM goals WHERE game_id = ? GROUP BY team").all(game.id) as { team: Team; goals: number }[];
+    const score = Object.fromEntries(game.format.teams.map(team => [team.id, goals.find(g => g.team === team.id)?.goals ?? 0]));
+    const clock = game.clock ? pauseClock(game.clock, new Date()) : null;
+    const changes = db.transaction(() => {
+      db.prepare("UPDATE games SET clock = ? WHERE id = ?").run(clock && JSON.stringify(clock), game.id);
+      return recordResult(game, score);
+    }).immediate();
+    const updated: Game = { ...game, clock, scores: score };
+    broadcast(groupId, { type: "CLOCK_UPDATED", game_id: game.id, clock });
+    broadcast(groupId, { type: "RESULT_RECORDED", data: updated });
+    res.json({ game: updated, changes });
+  });
+
+  // Final score entered by hand ({ scores: { <team id>: goals } })
+  api.post("/games/:id/result", requireOrganizer, (req, res) => {
+    const groupId = getGroup(res).id;
+    const game = getGame(req.params.id, groupId);
+    if (!game) {
+      return res.status(404).json({ error: "Zápas neexistuje", code: "NOT_FOUND" });
+    }
+    const score = Object.fromEntries(game.format.teams.map(team => [team.id, Number(req.body.scores?.[team.id])]));
+    if (!Object.values(score).every(goals => Number.isInteger(goals) && goals >= 0)) {
+      return res.status(400).json({ error: "Neplatné skóre", code: "INVALID_INPUT" });
+    }
+
+    const changes = recordResult(game, score);
+    const updated: Game = { ...game, scores: score };
+    broadcast(groupId, { type: "RESULT_RECORDED", data: updated });
+    res.json({ game: updated, changes });
+  });
+
+  api.post("/current-game/reset", requireOrganizer, (req, res) => {
+    const groupId = getGroup(res).id;
+    const nextGame = rolloverGame.immediate(groupId, getIdentity(res));
+    broadcast(groupId, { type: "GAME_RESET", data: nextGame });
+    notifyWebhooks(groupId, "game_reset", { game: nextGame });
+    res.json(nextGame);
+  });
+
+  api.get("/variety", (req, res) => {
+    const groupId = getGroup(res).id;
+    res.json(getVariety(groupId));
+  });
+
+  api.put("/variety", requireOrganizer, (req, res) => {
+    const groupId = getGroup(res).id;
+    const variety: VarietySettings = { ...getVariety(groupId), ...req.body };
+    if (
+      !Number.isInteger(variety.lookbackGames) || variety.lookbackGames < 0 ||
+      typeof variety.repeatPenalty !== "number" || !(variety.repeatPenalty >= 0)
+    ) {
+      return res.status(400).json({ error: "Neplatné nastavenie", code: "INVALID_INPUT" });
+    }
+    setGroupSetting(groupId, "variety", JSON.stringify({ lookbackGames: variety.lookbackGames, repeatPenalty: variety.repeatPenalty }));
+    res.json(getVariety(groupId));
+  });
+
+  api.get("/schedule", (req, res) => {
+    const groupId = getGroup(res).id;
+    res.json(getSchedule(groupId));
+  });
+
+  // Saving an enabled schedule re-times the open game to the next scheduled slot
+  api.put("/schedule", requireOrganizer, (req, res) => {
+    const groupId = getGroup(res).id;
+    // Only the fields of a schedule are kept, whatever else the body carries
+    const { enabled, day, time, venue, opensDay, opensTime, lockMinutesBefore, drawMinutesBefore } = { ...getSchedule(groupId), ...req.body };
+    const schedule: Schedule = { enabled, day, time, venue, opensDay, opensTime, lockMinutesBefore, drawMinutesBefore };
+    const validDay = (day: unknown) => Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6;
+    const validTime = (time: unknown) => typeof time === "string" && /^([01]\d|2[0-3]):[0-5]\d$/.test(time);
+    const validMinutes = (minutes: unknown) => Number.isInteger(minutes) && (minutes as number) >= 0;
+    if (
+      typeof schedule.enabled !== "boolean" || typeof schedule.venue !== "string" ||
+      !validDay(schedule.day) || !validDay(schedule.opensDay) ||
+      !validTime(schedule.time) || !validTime(schedule.opensTime) ||
+      !validMinutes(schedule.lockMinutesBefore) || !validMinutes(schedule.drawMinutesBefore)
+    ) {
+      return res.status(400).json({ error: "Neplatný rozpis", code: "INVALID_INPUT" });
+    }
+    if (schedule.drawMinutesBefore > schedule.lockMinutesBefore) {
+      return res.status(400).json({ error: "Žrebovanie musí byť až po uzávierke prihlášok", code: "INVALID_INPUT" });
+    }
+    setGroupSetting(groupId, "schedule", JSON.stringify(schedule));
+
+    if (schedule.enabled) {
+      const game = getOpenGame(groupId);
+      const date = nextGameDate(schedule, new Date());
+      const windows = gameWindows(date, schedule);
+      db.prepare(`
+        UPDATE games
+        SET date = ?, venue = ?, start_time = ?, signups_open_at = ?, signups_lock_at = ?, draw_at = ?, auto_drawn_at = NULL
+        WHERE id = ?
+      `).run(date, schedule.venue, schedule.time, windows.signups_open_at, windows.signups_lock_at, windows.draw_at, game.id);
+      broadcast(groupId, { type: "GAME_UPDATED", data: getGame(game.id, groupId) });
+    }
+    res.json(schedule);
+  });
+
+  // Runs the scheduled steps of every group's open game: the automatic draw and, after the game, opening the next one
+  const runSchedule = () => {
+    const now = new Date();
+    for (const groupId of db.prepare("SELECT id FROM groups").pluck().all() as number[]) {
+      // Runs from a timer: a failure is logged and the other groups still get their turn
+      try {
+        const game = getOpenGame(groupId);
+        if (game.draw_at && !game.auto_drawn_at && now >= new Date(game.draw_at)) {
+          db.prepare("UPDATE games SET auto_drawn_at = ? WHERE id = ?").run(now.toISOString(), game.id);
+          try {
+            runDraw(groupId, true, "schedule");
+          } catch (error) {
+            if (!(error instanceof ApiError)) throw error;
+            console.log(`Automatic draw skipped: ${error.message}`);
+          }
+        }
+        if (getSchedule(groupId).enabled && game.start_time) {
+          const end = gameStart(game.date, game.start_time).getTime() + GAME_DURATION_MINUTES * 60_000;
+          if (now.getTime() >= end) {
+            const nextGame = rolloverGame.immediate(groupId, "schedule");
+            broadcast(groupId, { type: "GAME_RESET", data: nextGame });
+            notifyWebhooks(groupId, "game_reset", { game: nextGame });
+          }
+        }
+      } catch (error) {
+        console.error(`Scheduled step failed for group ${groupId}:`, error);
+      }
+    }
+  };
+  setInterval(runSchedule, 30_000);
+  runSchedule();
+
+  const retryWebhooks = () => deliverWebhooks().catch(error => console.error("Webhook delivery failed:", error));
+  setInterval(retryWebhooks, 5_000);
+  retryWebhooks();
+
+  // Every group has the same API under its slug; the plain /api/... paths reach the first group,
+  // so links and webhooks from before groups keep working
+  app.use("/api/groups/:group", resolveGroup(db), authenticate(db, serverKey), api);
+  app.use("/api", resolveGroup(db), authenticate(db, serverKey), api);
+
   // Vite middleware for development
   if (process.env.NODE_ENV !== "production") {
     const vite = await createViteServer({
@@ -122,6 +2098,10 @@ async function startServer() {
   const PORT = 3000;
   server.listen(PORT, "0.0.0.0", () => {
     console.log(`Server running on http://localhost:${PORT}`);
+    // Only the server key's own link; the other groups' organizer links are handed out from the app
+    console.log(`Organizer link: http://localhost:${PORT}/?token=${serverKey}`);
+    const slugs = db.prepare("SELECT slug FROM groups ORDER BY id").pluck().all() as string[];
+    console.log(`Groups: ${slugs.map(slug => `/g/${slug}/`).join(", ")}`);
   });
 }
 
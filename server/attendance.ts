@@ -0,0 +1,56 @@
+import { AttendanceRecord } from "../src/types";
+
+// Leaving the roster less than this long before the start counts as a late cancellation
+export const LATE_CANCELLATION_MINUTES = 24 * 60;
+
+// A late cancellation hurts half as much as not showing up at all
+const LATE_CANCELLATION_WEIGHT = 0.5;
+
+// One roster spot a player held in a closed game
+export interface RosterSpot {
+  player_id: number;
+  name: string;
+  no_show: boolean;
+}
+
+export interface CancellationRow {
+  player_id: number;
+  name: string;
+  late: boolean;
+}
+
+/**
+ * Attendance of every player with a roster spot or a cancellation. Reliability is the
+ * share of commitments kept, where a commitment is a roster spot in a closed game or a
+ * late cancellation; players without any commitment have no reliability yet.
+ */
+export function attendanceReport(spots: RosterSpot[], cancellations: CancellationRow[]): AttendanceRecord[] {
+  const records = new Map<number, AttendanceRecord>();
+  const recordOf = (playerId: number, name: string) => {
+    const record = records.get(playerId) ?? {
+      player_id: playerId, name, games: 0, no_shows: 0, cancellations: 0, late_cancellations: 0, reliability: null,
+    };
+    records.set(playerId, record);
+    return record;
+  };
+
+  for (const spot of spots) {
+    const record = recordOf(spot.player_id, spot.name);
+    if (spot.no_show) record.no_shows++;
+    else record.games++;
+  }
+  for (const cancellation of cancellations) {
+    const record = recordOf(cancellation.player_id, cancellation.name);
+    record.cancellations++;
+    if (cancellation.late) record.late_cancellations++;
+  }
+
+  for (const record of records.values()) {
+    const commitments = record.games + record.no_shows + record.late_cancellations;
+    if (commitments > 0) {
+      const missed = record.no_shows + LATE_CANCELLATION_WEIGHT * record.late_cancellations;
+      record.reliability = 1 - missed / commitments;
+    }
+  }
+  return [...records.values()].sort((a, b) => (a.reliability ?? 1) - (b.reliability ?? 1) || a.name.localeCompare(b.name));
+}
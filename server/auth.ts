@@ -0,0 +1,42 @@
+import type { Request, Response, NextFunction } from "express";
+import type { Database } from "better-sqlite3";
+import crypto from "crypto";
+import { Identity } from "../src/types";
+import { getGroup } from "./groups";
+
+export const createToken = () => crypto.randomBytes(16).toString("hex");
+
+// Callers identify themselves with the token from their link, sent as "Authorization: Bearer <token>"
+export const readToken = (req: Request) => {
+  const header = req.headers.authorization ?? "";
+  return header.startsWith("Bearer ") ? header.slice(7).trim() : "";
+};
+
+/**
+ * Resolves the caller's role in the group of the request: the group's organizer key and the
+ * server key grant full access, a player's personal token lets them manage only their own
+ * signup in their own group, anyone else can only read.
+ */
+export const authenticate = (db: Database, serverKey: string) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const token = readToken(req);
+    const group = getGroup(res);
+    let identity: Identity = { role: "viewer", player: null };
+    if (token && (token === serverKey || token === group.organizer_key)) {
+      identity = { role: "organizer", player: null };
+    } else if (token) {
+      const player = db.prepare("SELECT id, name, position FROM players WHERE token = ? AND group_id = ? AND active = 1").get(token, group.id) as Identity["player"] | undefined;
+      if (player) identity = { role: "player", player };
+    }
+    res.locals.identity = identity;
+    next();
+  };
+
+export const getIdentity = (res: Response): Identity => res.locals.identity;
+
+export const requireOrganizer = (req: Request, res: Response, next: NextFunction) => {
+  if (getIdentity(res).role !== "organizer") {
+    return res.status(403).json({ error: "Len organizátor môže vykonať túto akciu", code: "FORBIDDEN" });
+  }
+  next();
+};
@@ -0,0 +1,17 @@
+import { GameClock } from "../src/types";
+
+// Seconds played in the current period at the given moment
+export const clockSeconds = (clock: GameClock, now: Date) =>
+  clock.elapsed + (clock.running_since ? Math.floor((now.getTime() - new Date(clock.running_since).getTime()) / 1000) : 0);
+
+// A game without a clock starts in the first period
+export const startClock = (clock: GameClock | null, now: Date): GameClock => {
+  const current = clock ?? { period: 1, elapsed: 0, running_since: null };
+  return current.running_since ? current : { ...current, running_since: now.toISOString() };
+};
+
+export const pauseClock = (clock: GameClock, now: Date): GameClock =>
+  ({ ...clock, elapsed: clockSeconds(clock, now), running_since: null });
+
+export const nextPeriod = (clock: GameClock): GameClock =>
+  ({ period: clock.period + 1, elapsed: 0, running_since: null });
@@ -0,0 +1,34 @@
+import { CostSettings } from "../src/types";
+
+// Amounts are kept in cents so shares always add up to the cost exactly
+export const DEFAULT_COSTS: CostSettings = {
+  iceCost: 0,
+  goalieDiscount: 100,
+};
+
+export interface CostShare {
+  id: number;
+  goalie: boolean; // whether the player stood in goal
+}
+
+/**
+ * Splits the ice cost among the players who showed up. A goalie's share is cut by
+ * the discount in percent (100 exempts goalies) and the rest pays evenly; leftover
+ * cents go to the players with the largest remainders. Returns the share of every player.
+ */
+export function splitIceCost(cost: number, players: CostShare[], goalieDiscount: number) {
+  const weightOf = (player: CostShare) => player.goalie ? 1 - goalieDiscount / 100 : 1;
+  const totalWeight = players.reduce((sum, player) => sum + weightOf(player), 0);
+  const shares = new Map<number, number>();
+  if (totalWeight === 0) return shares;
+
+  const exact = players.map(player => ({ id: player.id, amount: cost * weightOf(player) / totalWeight }));
+  for (const { id, amount } of exact) shares.set(id, Math.floor(amount));
+  let left = cost - [...shares.values()].reduce((sum, amount) => sum + amount, 0);
+  for (const { id } of [...exact].sort((a, b) => (b.amount % 1) - (a.amount % 1))) {
+    if (left <= 0) break;
+    shares.set(id, shares.get(id)! + 1);
+    left--;
+  }
+  return shares;
+}
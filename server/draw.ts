@@ -0,0 +1,230 @@
+import crypto from "crypto";
+import { DrawCandidate, DrawRule, GameFormat, Position, Team, TeamAssignment, TeamBalance, TeammateRepeat, VarietySettings } from "../src/types";
+import { positionCapacity } from "./format";
+
+const POSITIONS: Position[] = ["goalie", "defense", "forward"];
+
+// Number of random starting splits the search tries before keeping the best one
+const ATTEMPTS = 100;
+
+// Rating points an unmet soft rule weighs against the balance; hard rules always outweigh it
+const SOFT_RULE_PENALTY = 200;
+const HARD_RULE_PENALTY = 1_000_000;
+
+export const DEFAULT_VARIETY: VarietySettings = {
+  lookbackGames: 3,
+  repeatPenalty: 10,
+};
+
+export interface DrawResult {
+  teams: TeamAssignment[];
+  balance: TeamBalance;
+  unmet: DrawRule[]; // rules between two playing candidates the best split breaks
+  freshness: number; // share of teammate pairs that were not teammates in the recent games, 0–1
+}
+
+export const createSeed = () => crypto.randomInt(0, 2 ** 32);
+
+// Mulberry32: a small deterministic generator, so the same seed always yields the same draw
+const seededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  };
+};
+
+// Fisher-Yates, so every order is equally likely
+const shuffle = <T>(array: T[], random: () => number) => {
+  const result = [...array];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const computeBalance = (teams: Team[], players: DrawCandidate[], assignment: Map<number, Team | null>): TeamBalance => {
+  const totals = Object.fromEntries(teams.map(team => [team, 0]));
+  for (const player of players) {
+    const team = assignment.get(player.id);
+    if (team) totals[team] += player.rating;
+  }
+  const values = Object.values(totals);
+  return { totals, difference: Math.max(...values) - Math.min(...values) };
+};
+
+// Random split of the playing players around the locked ones. Each player of a position
+// goes to the team with the fewest players in it, so uneven counts land on the smaller teams.
+const randomSplit = (teams: Team[], playing: DrawCandidate[], random: () => number) => {
+  const assignment = new Map<number, Team | null>();
+  const sizes = Object.fromEntries(teams.map(team => [team, 0]));
+
+  for (const position of POSITIONS) {
+    const group = playing.filter(p => p.position === position);
+    const inPosition = Object.fromEntries(teams.map(team => [team, 0]));
+    const place = (id: number, team: Team) => {
+      assignment.set(id, team);
+      inPosition[team]++;
+      sizes[team]++;
+    };
+
+    for (const player of group.filter(p => p.locked)) {
+      place(player.id, player.locked!);
+    }
+    const order = shuffle(teams, random);
+    for (const player of shuffle(group.filter(p => !p.locked), random)) {
+      const team = order.reduce((best, team) =>
+        inPosition[team] < inPosition[best] || (inPosition[team] === inPosition[best] && sizes[team] < sizes[best]) ? team : best,
+      );
+      place(player.id, team);
+    }
+  }
+
+  return assignment;
+};
+
+// Rules only bind when both players got a team; whoever sits out cannot break one
+const unmetRules = (rules: DrawRule[], assignment: Map<number, Team | null>) =>
+  rules.filter(rule => {
+    const a = assignment.get(rule.a);
+    const b = assignment.get(rule.b);
+    if (!a || !b) return false;
+    return rule.kind === "apart" ? a === b : a !== b;
+  });
+
+const teammates = (assignment: Map<number, Team | null>, a: number, b: number) => {
+  const team = assignment.get(a);
+  return Boolean(team) && team === assignment.get(b);
+};
+
+const evaluate = (teams: Team[], players: DrawCandidate[], rules: DrawRule[], repeats: TeammateRepeat[], assignment: Map<number, Team | null>) => {
+  const balance = computeBalance(teams, players, assignment);
+  const unmet = unmetRules(rules, assignment);
+  const rulePenalty = unmet.reduce((sum, rule) => sum + (rule.hard ? HARD_RULE_PENALTY : SOFT_RULE_PENALTY), 0);
+  const repeatPenalty = repeats.reduce((sum, pair) => sum + (teammates(assignment, pair.a, pair.b) ? pair.weight : 0), 0);
+  return { balance, unmet, cost: balance.difference + rulePenalty + repeatPenalty };
+};
+
+const freshness = (players: DrawCandidate[], repeats: TeammateRepeat[], assignment: Map<number, Team | null>) => {
+  let pairs = 0;
+  players.forEach((a, index) => {
+    for (const b of players.slice(index + 1)) {
+      if (teammates(assignment, a.id, b.id)) pairs++;
+    }
+  });
+  const repeated = repeats.filter(pair => teammates(assignment, pair.a, pair.b)).length;
+  return pairs === 0 ? 1 : 1 - repeated / pairs;
+};
+
+// Greedily swaps unlocked same-position players between two teams while it lowers the
+// rating difference plus penalties
+const improveBySwaps = (teams: Team[], players: DrawCandidate[], rules: DrawRule[], repeats: TeammateRepeat[], assignment: Map<number, Team | null>) => {
+  let current = evaluate(teams, players, rules, repeats, assignment);
+
+  const movable = players.filter(p => !p.locked);
+  const swap = (a: DrawCandidate, b: DrawCandidate) => {
+    const team = assignment.get(a.id)!;
+    assignment.set(a.id, assignment.get(b.id)!);
+    assignment.set(b.id, team);
+  };
+
+  while (current.cost > 0) {
+    let bestSwap: [DrawCandidate, DrawCandidate] | null = null;
+    let bestCost = current.cost;
+
+    movable.forEach((a, index) => {
+      for (const b of movable.slice(index + 1)) {
+        if (b.position !== a.position || assignment.get(a.id) === assignment.get(b.id)) continue;
+        swap(a, b);
+        const { cost } = evaluate(teams, players, rules, repeats, assignment);
+        swap(a, b);
+        if (cost < bestCost) {
+          bestCost = cost;
+          bestSwap = [a, b];
+        }
+      }
+    });
+
+    if (!bestSwap) break;
+    swap(...bestSwap);
+    current = evaluate(teams, players, rules, repeats, assignment);
+  }
+
+  return current;
+};
+
+// Decides who plays and where. Locked players always play; the rest get their own position's
+// slots by lot, and slots still open go to the players left over who list that position as
+// secondary, those who ranked it higher first. Goalies are filled first, as a missing goalie
+// hurts most.
+const choosePlaying = (format: GameFormat, players: DrawCandidate[], random: () => number) => {
+  const open = Object.fromEntries(POSITIONS.map(position => [position, positionCapacity(format, position)]));
+  const playing: DrawCandidate[] = [];
+  const take = (chosen: DrawCandidate[], position: Position) => {
+    playing.push(...chosen.map(p => ({ ...p, position })));
+    open[position] -= chosen.length;
+    bench = bench.filter(p => !chosen.includes(p));
+  };
+
+  let bench = shuffle(players.filter(p => !p.locked), random);
+  for (const player of players.filter(p => p.locked)) {
+    playing.push(player);
+    open[player.position]--;
+  }
+  for (const position of POSITIONS) {
+    take(bench.filter(p => p.position === position).slice(0, Math.max(0, open[position])), position);
+  }
+  for (const position of POSITIONS) {
+    const fillers = bench
+      .filter(p => p.secondary.includes(position))
+      .sort((a, b) => a.secondary.indexOf(position) - b.secondary.indexOf(position));
+    take(fillers.slice(0, Math.max(0, open[position])), position);
+  }
+  return playing;
+};
+
+/**
+ * Splits the signed-up players into the teams of the format, each taking at most
+ * its slots per position, searching for the split with the smallest difference in
+ * total rating that breaks as few rules and repeats as few recent teammate pairs as
+ * possible. Locked players keep their team and always play; players over the slot
+ * limit stay unassigned. Every random choice comes from the seed, so the same input
+ * and seed always give the same teams.
+ */
+export function drawTeams(format: GameFormat, players: DrawCandidate[], rules: DrawRule[], seed: number, repeats: TeammateRepeat[] = []): DrawResult {
+  const random = seededRandom(seed);
+  const teams = format.teams.map(team => team.id);
+  // Who sits out is decided by lot once, so the rating search cannot favour benching anyone
+  const playing = choosePlaying(format, players, random);
+  const playedPosition = new Map(playing.map(p => [p.id, p.position]));
+
+  let best: { assignment: Map<number, Team | null>; balance: TeamBalance; unmet: DrawRule[]; cost: number } | null = null;
+
+  for (let attempt = 0; attempt < ATTEMPTS; attempt++) {
+    const assignment = randomSplit(teams, playing, random);
+    const result = improveBySwaps(teams, playing, rules, repeats, assignment);
+    if (!best || result.cost < best.cost) {
+      best = { assignment, ...result };
+    }
+    if (best.cost === 0) break;
+  }
+
+  const assignment = best?.assignment ?? new Map<number, Team | null>();
+  return {
+    teams: players.map(p => {
+      const position = playedPosition.get(p.id);
+      return {
+        id: p.id,
+        team: assignment.get(p.id) ?? null,
+        played_position: position && position !== p.position ? position : null,
+      };
+    }),
+    balance: best?.balance ?? computeBalance(teams, [], new Map()),
+    unmet: best?.unmet ?? [],
+    freshness: freshness(playing, repeats, assignment),
+  };
+}
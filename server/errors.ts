@@ -0,0 +1,16 @@
+import type { Response } from "express";
+import { ApiErrorCode } from "../src/types";
+
+// Thrown inside a transaction to roll it back and answer with a structured error
+export class ApiError extends Error {
+  constructor(readonly status: number, readonly code: ApiErrorCode, message: string) {
+    super(message);
+  }
+}
+
+export const sendError = (res: Response, error: unknown) => {
+  if (error instanceof ApiError) {
+    return res.status(error.status).json({ error: error.message, code: error.code });
+  }
+  throw error;
+};
@@ -0,0 +1,86 @@
+import { GameFormat, Position, TeamColor } from "../src/types";
+
+// The classic Sunday game: red against blue, 1 goalie, 4 defenders and 6 forwards each
+export const DEFAULT_FORMAT: GameFormat = {
+  teams: [
+    { id: "red", name: "Červený", color: "red" },
+    { id: "blue", name: "Modrý", color: "blue" },
+  ],
+  slots: { goalie: 1, defense: 4, forward: 6 },
+  maxPlayers: 22,
+};
+
+const TEAM_COLORS: TeamColor[] = ["red", "blue", "green", "yellow", "purple", "orange"];
+const POSITIONS: Position[] = ["goalie", "defense", "forward"];
+
+export const MAX_TEAMS = 4;
+
+// Players of one position the game has room for across all teams
+export const positionCapacity = (format: GameFormat, position: Position) =>
+  format.slots[position] * format.teams.length;
+
+/** Checks a format sent by the client; returns a clean copy or null when it is invalid. */
+export function parseFormat(input: any): GameFormat | null {
+  if (!input || !Array.isArray(input.teams) || input.teams.length < 2 || input.teams.length > MAX_TEAMS) {
+    return null;
+  }
+  const teams = input.teams.map((team: any) => ({
+    id: typeof team?.id === "string" ? team.id.trim() : "",
+    name: typeof team?.name === "string" ? team.name.trim() : "",
+    color: team?.color,
+  }));
+  const ids = new Set(teams.map((team: { id: string }) => team.id));
+  if (ids.size !== teams.length || teams.some((team: any) => !team.id || !team.name || !TEAM_COLORS.includes(team.color))) {
+    return null;
+  }
+
+  const slots = Object.fromEntries(POSITIONS.map(position => [position, input.slots?.[position]])) as Record<Position, number>;
+  if (!POSITIONS.every(position => Number.isInteger(slots[position]) && slots[position] >= 0) || POSITIONS.every(position => slots[position] === 0)) {
+    return null;
+  }
+  const { maxPlayers } = input;
+  if (!Number.isInteger(maxPlayers) || maxPlayers < 1) {
+    return null;
+  }
+  return { teams, slots, maxPlayers };
+}
+
+export interface SlotDemand {
+  position: Position;
+  secondary: Position[];
+}
+
+/**
+ * Whether every player can get a slot in their own position or one of their
+ * secondary positions, found by augmenting-path matching (rosters are small).
+ */
+export function fitsSlots(format: GameFormat, players: SlotDemand[]): boolean {
+  const load = Object.fromEntries(POSITIONS.map(position => [position, 0])) as Record<Position, number>;
+  const assigned: (Position | undefined)[] = [];
+  const assign = (index: number, position: Position) => {
+    if (assigned[index]) load[assigned[index]!]--;
+    assigned[index] = position;
+    load[position]++;
+  };
+
+  const place = (index: number, visited: Set<Position>): boolean => {
+    const { position: own, secondary } = players[index];
+    for (const position of [own, ...secondary]) {
+      if (visited.has(position)) continue;
+      visited.add(position);
+      if (load[position] < positionCapacity(format, position)) {
+        assign(index, position);
+        return true;
+      }
+      // Full: make room by moving someone in this position to another position they can play
+      const movable = assigned.findIndex((taken, other) => taken === position && other !== index && place(other, visited));
+      if (movable !== -1) {
+        assign(index, position);
+        return true;
+      }
+    }
+    return false;
+  };
+
+  return players.every((_, index) => place(index, new Set()));
+}
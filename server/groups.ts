@@ -0,0 +1,40 @@
+import type { Request, Response, NextFunction } from "express";
+import type { Database } from "better-sqlite3";
+import { Group } from "../src/types";
+
+// A group as stored, with the key its organizer signs in with
+export interface GroupRecord extends Group {
+  organizer_key: string;
+  created_at: string;
+}
+
+// Slugs end up in URLs: lowercase letters, digits and inner dashes
+export const SLUG_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,30}[a-z0-9])?$/;
+
+// "Utorok – Old Boys" becomes "utorok-old-boys"
+export const slugify = (name: string) => name
+  .normalize("NFD")
+  .replace(/[\u0300-\u036f]/g, "")
+  .toLowerCase()
+  .replace(/[^a-z0-9]+/g, "-")
+  .slice(0, 32)
+  .replace(/^-+|-+$/g, "");
+
+/**
+ * Finds the group named in the URL (/api/groups/:group/...) for the routes after it;
+ * the plain /api/... routes from before groups existed belong to the first group.
+ */
+export const resolveGroup = (db: Database) =>
+  (req: Request<{ group?: string }>, res: Response, next: NextFunction) => {
+    const { group: slug } = req.params;
+    const group = slug === undefined
+      ? db.prepare("SELECT * FROM groups ORDER BY id LIMIT 1").get()
+      : db.prepare("SELECT * FROM groups WHERE slug = ?").get(slug);
+    if (!group) {
+      return res.status(404).json({ error: "Skupina neexistuje", code: "NOT_FOUND" });
+    }
+    res.locals.group = group;
+    next();
+  };
+
+export const getGroup = (res: Response): GroupRecord => res.locals.group;
@@ -0,0 +1,73 @@
+import { Position, Team } from "../src/types";
+
+// Players in a defense pair and in a forward line; goalies are not split into lines
+export const LINE_SIZES: Partial<Record<Position, number>> = {
+  defense: 2,
+  forward: 3,
+};
+
+export interface LineCandidate {
+  id: number;
+  team: Team;
+  position: Position; // the position the player lines up in
+  rating: number;
+}
+
+// Two candidates who asked to play in the same line
+export interface LinePreference {
+  a: number;
+  b: number;
+}
+
+// Players joined by preferences, directly or through someone else, form one group
+const preferenceGroups = (players: LineCandidate[], preferences: LinePreference[]) => {
+  const groupOf = new Map(players.map(p => [p.id, [p]]));
+  for (const { a, b } of preferences) {
+    const groupA = groupOf.get(a);
+    const groupB = groupOf.get(b);
+    if (!groupA || !groupB || groupA === groupB) continue;
+    groupA.push(...groupB);
+    for (const player of groupB) groupOf.set(player.id, groupA);
+  }
+  return [...new Set(groupOf.values())];
+};
+
+// Strongest players first; groups are placed whole into the first line with room for them
+const splitIntoLines = (players: LineCandidate[], size: number, preferences: LinePreference[]) => {
+  const lines: LineCandidate[][] = Array.from({ length: Math.ceil(players.length / size) }, () => []);
+  const units = preferenceGroups(players, preferences)
+    .map(group => [...group].sort((a, b) => b.rating - a.rating))
+    .sort((a, b) => b[0].rating - a[0].rating);
+
+  for (const unit of units) {
+    const line = lines.find(line => line.length + unit.length <= size);
+    if (line) {
+      line.push(...unit);
+      continue;
+    }
+    // A group too big for any line is spread over the lines that still have room
+    for (const player of unit) {
+      lines.find(line => line.length < size)!.push(player);
+    }
+  }
+  return lines;
+};
+
+/**
+ * Splits each team's defenders into pairs and forwards into lines of three, the
+ * strongest line first, keeping preferred linemates together where they fit.
+ * Returns the line number, counted from 1, of every player who got one.
+ */
+export function buildLines(players: LineCandidate[], preferences: LinePreference[]) {
+  const lineOf = new Map<number, number>();
+  const teams = [...new Set(players.map(p => p.team))];
+  for (const team of teams) {
+    for (const [position, size] of Object.entries(LINE_SIZES) as [Position, number][]) {
+      const group = players.filter(p => p.team === team && p.position === position);
+      splitIntoLines(group, size, preferences).forEach((line, index) => {
+        for (const player of line) lineOf.set(player.id, index + 1);
+      });
+    }
+  }
+  return lineOf;
+}
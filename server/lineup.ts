@@ -0,0 +1,207 @@
+import { createRequire } from "module";
+import PDFDocument from "pdfkit";
+import { Resvg } from "@resvg/resvg-js";
+import { Game, GamePlayer, Position, TeamColor } from "../src/types";
+
+// DejaVu has every Slovak letter, and shipping it keeps the output the same on any server
+const require = createRequire(import.meta.url);
+const FONT = require.resolve("dejavu-fonts-ttf/ttf/DejaVuSans.ttf");
+const FONT_BOLD = require.resolve("dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf");
+
+const TEAM_HEX: Record<TeamColor, string> = {
+  red: "#dc2626",
+  blue: "#2563eb",
+  green: "#16a34a",
+  yellow: "#eab308",
+  purple: "#9333ea",
+  orange: "#f97316",
+};
+
+const POSITIONS: Position[] = ["goalie", "defense", "forward"];
+
+const SECTION_LABELS: Record<Position, string> = {
+  goalie: "Brankár",
+  defense: "Obrana",
+  forward: "Útok",
+};
+
+const POSITION_NAMES: Record<Position, string> = {
+  goalie: "brankár",
+  defense: "obranca",
+  forward: "útočník",
+};
+
+export interface LineupRow {
+  name: string;
+  line: number | null; // set on the first player of each defense pair or forward line
+  note: string | null; // the player's own position when the draw moved them
+}
+
+export interface LineupTeam {
+  name: string;
+  color: TeamColor;
+  size: number;
+  sections: { position: Position, rows: LineupRow[] }[];
+}
+
+export interface Lineup {
+  title: string;
+  subtitle: string; // date, start time and venue
+  teams: LineupTeam[];
+}
+
+/** Drawn teams of a game as rows to print: players grouped by the position they play, in line order. */
+export function buildLineup(game: Game, signups: GamePlayer[]): Lineup {
+  const date = new Date(`${game.date}T00:00:00`).toLocaleDateString("sk-SK", { weekday: "long", day: "numeric", month: "long", year: "numeric" });
+  const teams = game.format.teams.map(team => {
+    const players = signups.filter(p => p.team === team.id && !p.waitlisted);
+    const sections = POSITIONS.map(position => {
+      const inPosition = players
+        .filter(p => (p.played_position ?? p.position) === position)
+        .sort((a, b) => (a.line ?? Infinity) - (b.line ?? Infinity));
+      const rows = inPosition.map((p, index) => ({
+        name: p.name,
+        line: p.line !== null && inPosition[index - 1]?.line !== p.line ? p.line : null,
+        note: p.played_position ? POSITION_NAMES[p.position] : null,
+      }));
+      return { position, rows };
+    }).filter(section => section.rows.length > 0);
+    return { name: team.name, color: team.color, size: players.length, sections };
+  });
+  return {
+    title: "Rozlosovanie tímov",
+    subtitle: [date, game.start_time, game.venue].filter(Boolean).join(" · "),
+    teams,
+  };
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, c => `&#${c.charCodeAt(0)};`);
+
+// Long names would run into the next column
+const fit = (text: string, max: number) => text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+// Layout of the chat card, in pixels
+const CARD_WIDTH = 1080;
+const CARD_PADDING = 60;
+const CARD_GAP = 40;
+const HEADER_HEIGHT = 170;
+const TEAM_BAR = 72;
+const SECTION_HEAD = 56;
+const ROW = 40;
+const LINE_GAP = 10;
+
+// Height of one team column below the colored bar
+const teamHeight = (team: LineupTeam) => team.sections.reduce((height, section) =>
+  height + SECTION_HEAD + section.rows.length * ROW + section.rows.filter(row => row.line !== null).length * LINE_GAP, 0);
+
+/** Square-ish PNG of the teams for posting in the group chat; two teams per row. */
+export function renderTeamCard(lineup: Lineup): Buffer {
+  const columns = Math.min(2, lineup.teams.length);
+  const columnWidth = (CARD_WIDTH - 2 * CARD_PADDING - (columns - 1) * CARD_GAP) / columns;
+  const maxChars = Math.floor((columnWidth - 90) / 14);
+
+  const parts: string[] = [];
+  let top = HEADER_HEIGHT;
+  for (let start = 0; start < lineup.teams.length; start += columns) {
+    const rowTeams = lineup.teams.slice(start, start + columns);
+    rowTeams.forEach((team, index) => {
+      const x = CARD_PADDING + index * (columnWidth + CARD_GAP);
+      const color = TEAM_HEX[team.color];
+      parts.push(
+        `<rect x="${x}" y="${top}" width="${columnWidth}" height="${TEAM_BAR + teamHeight(team) + 20}" rx="28" fill="#0c0c0e" stroke="${color}" stroke-opacity="0.4"/>`,
+        `<rect x="${x}" y="${top}" width="${columnWidth}" height="${TEAM_BAR}" rx="28" fill="${color}"/>`,
+        `<rect x="${x}" y="${top + TEAM_BAR - 28}" width="${columnWidth}" height="28" fill="${color}"/>`,
+        `<text x="${x + 28}" y="${top + 47}" font-size="28" font-weight="bold" fill="#fff">${escapeXml(fit(team.name.toUpperCase(), maxChars - 6))} TÍM</text>`,
+        `<text x="${x + columnWidth - 28}" y="${top + 47}" font-size="24" fill="#fff" fill-opacity="0.8" text-anchor="end">${team.size}</text>`,
+      );
+      let y = top + TEAM_BAR;
+      for (const section of team.sections) {
+        y += SECTION_HEAD;
+        parts.push(`<text x="${x + 28}" y="${y - 16}" font-size="16" font-weight="bold" fill="#fff" fill-opacity="0.4" letter-spacing="3">${SECTION_LABELS[section.position].toUpperCase()}</text>`);
+        for (const row of section.rows) {
+          if (row.line !== null) {
+            y += LINE_GAP;
+            parts.push(`<text x="${x + 28}" y="${y + 28}" font-size="18" font-weight="bold" fill="${color}">${row.line}.</text>`);
+          }
+          const note = row.note ? ` <tspan fill-opacity="0.4" font-size="18">(${row.note})</tspan>` : "";
+          parts.push(`<text x="${x + 64}" y="${y + 28}" font-size="24" fill="#fff">${escapeXml(fit(row.name, maxChars))}${note}</text>`);
+          y += ROW;
+        }
+      }
+    });
+    top += Math.max(...rowTeams.map(team => TEAM_BAR + teamHeight(team) + 20)) + CARD_GAP;
+  }
+  const height = top - CARD_GAP + CARD_PADDING;
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${CARD_WIDTH}" height="${height}" font-family="DejaVu Sans">
+    <rect width="100%" height="100%" fill="#050505"/>
+    <text x="${CARD_PADDING}" y="92" font-size="44" font-weight="bold" fill="#fff">${escapeXml(lineup.title.toUpperCase())}</text>
+    <text x="${CARD_PADDING}" y="132" font-size="22" fill="#fff" fill-opacity="0.5">${escapeXml(lineup.subtitle)}</text>
+    ${parts.join("\n    ")}
+  </svg>`;
+
+  return new Resvg(svg, {
+    font: { fontFiles: [FONT, FONT_BOLD], loadSystemFonts: false, defaultFontFamily: "DejaVu Sans" },
+  }).render().asPng();
+}
+
+// Layout of the printed sheet, in points on A4
+const PAGE_MARGIN = 40;
+const SHEET_GAP = 20;
+
+/** A4 lineup for the dressing room door: black on white, two teams side by side, a page per two teams. */
+export function renderLineupSheet(lineup: Lineup): Promise<Buffer> {
+  const doc = new PDFDocument({ size: "A4", margin: PAGE_MARGIN, info: { Title: `${lineup.title} – ${lineup.subtitle}` } });
+  doc.registerFont("regular", FONT);
+  doc.registerFont("bold", FONT_BOLD);
+
+  const chunks: Buffer[] = [];
+  doc.on("data", chunk => chunks.push(chunk));
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const pageWidth = doc.page.width - 2 * PAGE_MARGIN;
+  const columnWidth = (pageWidth - SHEET_GAP) / 2;
+
+  for (let start = 0; start < lineup.teams.length; start += 2) {
+    if (start > 0) doc.addPage();
+    doc.font("bold").fontSize(24).fillColor("#000").text(lineup.title.toUpperCase(), PAGE_MARGIN, PAGE_MARGIN);
+    doc.font("regular").fontSize(12).fillColor("#555").text(lineup.subtitle);
+    const top = doc.y + 20;
+
+    lineup.teams.slice(start, start + 2).forEach((team, index) => {
+      const x = PAGE_MARGIN + index * (columnWidth + SHEET_GAP);
+      doc.rect(x, top, columnWidth, 36).fill(TEAM_HEX[team.color]);
+      doc.font("bold").fontSize(16).fillColor("#fff")
+        .text(`${team.name.toUpperCase()} TÍM`, x + 12, top + 9, { width: columnWidth - 60, lineBreak: false, ellipsis: true });
+      doc.font("regular").fontSize(14).text(String(team.size), x, top + 10, { width: columnWidth - 12, align: "right" });
+
+      let y = top + 50;
+      for (const section of team.sections) {
+        doc.font("bold").fontSize(10).fillColor("#888").text(SECTION_LABELS[section.position].toUpperCase(), x + 12, y, { characterSpacing: 2 });
+        y += 20;
+        for (const row of section.rows) {
+          if (row.line !== null) {
+            y += 6;
+            doc.moveTo(x, y - 4).lineTo(x + columnWidth, y - 4).lineWidth(0.5).strokeColor("#ccc").stroke();
+            doc.font("bold").fontSize(12).fillColor(TEAM_HEX[team.color]).text(`${row.line}.`, x + 12, y);
+          }
+          doc.font("regular").fontSize(14).fillColor("#000")
+            .text(row.name, x + 36, y, { width: columnWidth - 48, lineBreak: false, ellipsis: true });
+          const nameWidth = doc.widthOfString(row.name);
+          if (row.note && nameWidth < columnWidth - 120) {
+            doc.fontSize(10).fillColor("#888").text(`(${row.note})`, x + 40 + nameWidth, y + 3, { lineBreak: false });
+          }
+          y += 22;
+        }
+        y += 12;
+      }
+    });
+  }
+
+  doc.end();
+  return done;
+}
@@ -0,0 +1,53 @@
+import { Team } from "../src/types";
+
+// Maximum rating change for a one-goal game
+const K_FACTOR = 32;
+
+export interface RatedPlayer {
+  id: number;
+  team: Team;
+  rating: number;
+}
+
+export interface RatingUpdate {
+  id: number;
+  before: number;
+  after: number;
+  change: number;
+}
+
+// Bigger wins move ratings more (World Football Elo goal-difference index)
+const marginMultiplier = (margin: number) => {
+  if (margin <= 1) return 1;
+  if (margin === 2) return 1.5;
+  return (11 + margin) / 8;
+};
+
+const average = (ratings: number[]) => ratings.reduce((sum, r) => sum + r, 0) / ratings.length;
+
+/**
+ * Elo update for a team game: each team is rated by the average of its players
+ * and every player on a team gets the same change, scaled by the goal margin.
+ * With more than two teams every pair of teams counts as a match and the
+ * changes are averaged over a team's opponents.
+ */
+export function rateGame(players: RatedPlayer[], score: Record<Team, number>): RatingUpdate[] {
+  const teams = Object.keys(score).filter(team => players.some(p => p.team === team));
+  if (teams.length < 2) return [];
+
+  const strength = Object.fromEntries(teams.map(team => [team, average(players.filter(p => p.team === team).map(p => p.rating))]));
+  const teamChange = Object.fromEntries(teams.map(team => {
+    const opponents = teams.filter(other => other !== team);
+    const total = opponents.reduce((sum, other) => {
+      const expected = 1 / (1 + 10 ** ((strength[other] - strength[team]) / 400));
+      const actual = score[team] > score[other] ? 1 : score[team] < score[other] ? 0 : 0.5;
+      return sum + K_FACTOR * marginMultiplier(Math.abs(score[team] - score[other])) * (actual - expected);
+    }, 0);
+    return [team, total / opponents.length];
+  }));
+
+  return players.filter(p => teams.includes(p.team)).map(player => {
+    const change = teamChange[player.team];
+    return { id: player.id, before: player.rating, after: player.rating + change, change };
+  });
+}
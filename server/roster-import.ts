@@ -0,0 +1,190 @@
+import { ChatIntent, ImportRow, NameMatch, Player, Position } from "../src/types";
+
+// Position names accepted in an imported file, compared without diacritics and case
+const POSITION_ALIASES: Record<string, Position> = {
+  forward: "forward",
+  utocnik: "forward",
+  defense: "defense",
+  obranca: "defense",
+  goalie: "goalie",
+  brankar: "goalie",
+};
+
+// A chat name needs this score to be signed up without the organizer picking the player
+const MATCH_THRESHOLD = 0.8;
+// ... and must beat the next best player by this much
+const MATCH_MARGIN = 0.1;
+// Weaker matches are still offered as suggestions
+const SUGGESTION_THRESHOLD = 0.5;
+
+// Lowercase, without diacritics and extra spaces: "Ľuboš  Šťastný" -> "lubos stastny"
+export const normalizeName = (name: string) =>
+  name.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase().replace(/\s+/g, " ").trim();
+
+const levenshtein = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const similarity = (a: string, b: string) => 1 - levenshtein(a, b) / Math.max(a.length, b.length, 1);
+
+// Compares whole names and also word by word, so "Novák Peter" and a bare "Novák" still match
+// "Peter Novák"; a name with fewer or more words than the player's scores a little lower
+const nameScore = (a: string, b: string) => {
+  if (a === b) return 1;
+  const wordsA = a.split(" ");
+  const wordsB = b.split(" ");
+  const byWord = wordsA.reduce((sum, word) => sum + Math.max(...wordsB.map(other => similarity(word, other))), 0) / wordsA.length;
+  return Math.max(similarity(a, b), byWord * (wordsA.length === wordsB.length ? 1 : 0.9));
+};
+
+/**
+ * Players whose name resembles the given one, best first, and the player it can be
+ * taken for without asking: a close match clearly ahead of the next one.
+ */
+export function matchName(name: string, players: Pick<Player, "id" | "name">[]) {
+  const words = (name: string) => normalizeName(name.replace(/[^\p{L}\p{N}\s]/gu, " "));
+  const normalized = words(name);
+  const matches: NameMatch[] = players
+    .map(player => ({ player_id: player.id, name: player.name, score: nameScore(normalized, words(player.name)) }))
+    .filter(match => match.score >= SUGGESTION_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 3);
+  const [best, next] = matches;
+  const certain = best && best.score >= MATCH_THRESHOLD && (!next || best.score - next.score >= MATCH_MARGIN);
+  return { matches, player_id: certain ? best.player_id : null };
+}
+
+// Splits CSV text into rows; fields may be quoted, and Excel's semicolons work as well as commas
+export function parseCsv(text: string) {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ";" : ",";
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      rows.push([...row, field]);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) rows.push([...row, field]);
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",;\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const CSV_COLUMNS = ["name", "position", "secondary_positions", "rating", "active"];
+
+// Secondary positions are joined by "|" so the file keeps one player per row
+export const playersToCsv = (players: Player[]) =>
+  [
+    CSV_COLUMNS.join(","),
+    ...players.map(p => [p.name, p.position, p.secondary_positions.join("|"), Math.round(p.rating), p.active ? 1 : 0].map(csvField).join(",")),
+  ].join("\r\n") + "\r\n";
+
+/**
+ * Checks every row of an imported file. Columns are found by the header row when it
+ * has one, otherwise they are taken in export order; a name already in the database,
+ * or earlier in the file, is a duplicate and will not be imported again.
+ */
+export function importRows(rows: string[][], existing: Pick<Player, "id" | "name">[], defaultRating: number): ImportRow[] {
+  const hasHeader = rows.length > 0 && ["name", "meno"].includes(normalizeName(rows[0][0] ?? ""));
+  const header = hasHeader ? rows[0].map(cell => normalizeName(cell)) : CSV_COLUMNS;
+  const column = (names: string[]) => header.findIndex(cell => names.includes(cell));
+  const columns = {
+    name: column(["name", "meno"]),
+    position: column(["position", "pozicia"]),
+    secondary: column(["secondary_positions", "dalsie pozicie"]),
+    rating: column(["rating", "hodnotenie"]),
+  };
+  const known = new Map(existing.map(player => [normalizeName(player.name), player.id]));
+  const seen = new Set<string>();
+
+  return rows.slice(hasHeader ? 1 : 0).map((cells, index): ImportRow => {
+    const cell = (i: number) => (i >= 0 ? cells[i] ?? "" : "").trim();
+    const name = cell(columns.name).replace(/\s+/g, " ");
+    const position = POSITION_ALIASES[normalizeName(cell(columns.position))] ?? null;
+    const secondaryNames = cell(columns.secondary).split(/[|/]/).map(normalizeName).filter(Boolean);
+    const secondary = secondaryNames.map(p => POSITION_ALIASES[p]).filter(p => p && p !== position);
+    const rating = cell(columns.rating) === "" ? defaultRating : Number(cell(columns.rating).replace(",", "."));
+    const row: ImportRow = {
+      line: index + (hasHeader ? 2 : 1),
+      name,
+      position,
+      secondary_positions: [...new Set(secondary)],
+      rating,
+      status: "new",
+      duplicate_of: null,
+      error: null,
+    };
+
+    if (!name) return { ...row, status: "invalid", error: "Chýba meno" };
+    if (!position) return { ...row, status: "invalid", error: "Neznáma pozícia" };
+    if (secondaryNames.some(p => !POSITION_ALIASES[p])) return { ...row, status: "invalid", error: "Neznáma ďalšia pozícia" };
+    if (!Number.isFinite(rating)) return { ...row, status: "invalid", error: "Neplatné hodnotenie" };
+    const key = normalizeName(name);
+    if (known.has(key) || seen.has(key)) return { ...row, status: "duplicate", duplicate_of: known.get(key) ?? null };
+    seen.add(key);
+    return row;
+  });
+}
+
+// "[19.10.26, 18:05:12] Peter Novák: +1" (iPhone), "19. 10. 2026 18:05 - Peter Novák: +1" (Android)
+// Exported chats mark names with invisible direction characters, which are dropped first
+const CHAT_PREFIX = /^(?:\[[^\]]*\]\s*|[\d./,:\s]+?(?:[AaPp]\.?\s?[Mm]\.?)?\s[-–]\s)/;
+const CHAT_MESSAGE = /^~?\s*([^:]{1,60}):\s*(.*)$/;
+
+const intentOf = (message: string): ChatIntent | null => {
+  if (/^\+\s*1(?!\d)|^\+$/.test(message)) return "in";
+  if (/^-\s*1(?!\d)/.test(message)) return "out";
+  return null;
+};
+
+/**
+ * Authors who replied "+1" or "-1" in a copied chat log, in the order they first
+ * replied; a later reply of the same author replaces the earlier one.
+ */
+export function parseChat(text: string) {
+  const intents = new Map<string, { author: string, intent: ChatIntent }>();
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.replace(/[\u200e\u200f]/g, "").trim().replace(CHAT_PREFIX, "").match(CHAT_MESSAGE);
+    if (!match) continue;
+    const author = match[1].trim();
+    const intent = intentOf(match[2].trim());
+    if (!intent) continue;
+    const key = normalizeName(author);
+    intents.set(key, { author: intents.get(key)?.author ?? author, intent });
+  }
+  return [...intents.values()];
+}
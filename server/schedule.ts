@@ -0,0 +1,58 @@
+import { Schedule } from "../src/types";
+
+export const DEFAULT_SCHEDULE: Schedule = {
+  enabled: false,
+  day: 0,
+  time: "18:00",
+  venue: "",
+  opensDay: 1,
+  opensTime: "12:00",
+  lockMinutesBefore: 120,
+  drawMinutesBefore: 60, // after the lock, so late signups and cancellations cannot unbalance the teams
+};
+
+// How long after the start a scheduled game is closed and the next one is opened
+export const GAME_DURATION_MINUTES = 120;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Dates and times are the rink's local time, i.e. the server's time zone
+export const toLocalDate = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const gameStart = (date: string, time: string) => new Date(`${date}T${time}:00`);
+
+const minutesBefore = (date: Date, minutes: number) => new Date(date.getTime() - minutes * 60_000);
+
+/** First scheduled game day that starts after the given moment. */
+export function nextGameDate(schedule: Schedule, after: Date): string {
+  const candidate = new Date(after);
+  candidate.setHours(0, 0, 0, 0);
+  for (let i = 0; i < 8; i++) {
+    const date = toLocalDate(candidate);
+    if (candidate.getDay() === schedule.day && gameStart(date, schedule.time) > after) {
+      return date;
+    }
+    candidate.setDate(candidate.getDate() + 1);
+  }
+  throw new Error("Schedule has no upcoming game day");
+}
+
+/**
+ * Signup window for a game on the given date: signups open on the last
+ * configured opening day/time before the game, lock and get drawn a set
+ * number of minutes before the start.
+ */
+export function gameWindows(date: string, schedule: Schedule) {
+  const start = gameStart(date, schedule.time);
+  const opens = new Date(`${date}T${schedule.opensTime}:00`);
+  const daysBack = (start.getDay() - schedule.opensDay + 7) % 7;
+  opens.setDate(opens.getDate() - daysBack);
+  if (opens >= start) opens.setDate(opens.getDate() - 7);
+
+  return {
+    signups_open_at: opens.toISOString(),
+    signups_lock_at: minutesBefore(start, schedule.lockMinutesBefore).toISOString(),
+    draw_at: minutesBefore(start, schedule.drawMinutesBefore).toISOString(),
+  };
+}
@@ -0,0 +1,116 @@
+import { PlayerStats, Position, StatsLeaders, Team } from "../src/types";
+
+// Seasons run from September to August and are named by the year they start in
+const SEASON_START_MONTH = 9;
+
+// Players listed per leaderboard
+const LEADERS = 5;
+
+export const seasonOf = (date: string) => {
+  const [year, month] = date.split("-").map(Number);
+  return month >= SEASON_START_MONTH ? year : year - 1;
+};
+
+export const seasonRange = (season: number) => ({
+  from: `${season}-09-01`,
+  to: `${season + 1}-08-31`,
+});
+
+// One player in one game with a recorded result
+export interface Appearance {
+  player_id: number;
+  name: string;
+  game_id: number;
+  date: string;
+  team: Team;
+  position: Position; // the position the player lined up in
+  scores: Record<Team, number>;
+}
+
+// A goal of a game with a recorded result, by player rather than by signup
+export interface ScoredGoal {
+  scorer: number | null; // null for guests
+  assists: number[];
+}
+
+type Outcome = "win" | "loss" | "tie";
+
+// With more than two teams only the team with the most goals wins; a shared top score is a tie
+const outcome = (team: Team, scores: Record<Team, number>): Outcome => {
+  const own = scores[team] ?? 0;
+  const others = Object.entries(scores).filter(([id]) => id !== team).map(([, goals]) => goals);
+  const best = Math.max(...others);
+  if (own > best) return "win";
+  return own === best ? "tie" : "loss";
+};
+
+const goalsAgainst = (team: Team, scores: Record<Team, number>) =>
+  Object.entries(scores).reduce((sum, [id, goals]) => id === team ? sum : sum + goals, 0);
+
+/**
+ * Season line of every player who appeared in the given games: record, scoring,
+ * goalie goals-against and win streaks, sorted by points.
+ */
+export function playerStats(appearances: Appearance[], goals: ScoredGoal[]): PlayerStats[] {
+  const byPlayer = new Map<number, Appearance[]>();
+  for (const appearance of [...appearances].sort((a, b) => a.date.localeCompare(b.date) || a.game_id - b.game_id)) {
+    byPlayer.set(appearance.player_id, [...(byPlayer.get(appearance.player_id) ?? []), appearance]);
+  }
+
+  const stats = [...byPlayer.entries()].map(([playerId, games]): PlayerStats => {
+    const outcomes = games.map(game => outcome(game.team, game.scores));
+    const goalieGames = games.filter(game => game.position === "goalie");
+    const scored = goals.filter(goal => goal.scorer === playerId).length;
+    const assists = goals.filter(goal => goal.assists.includes(playerId)).length;
+    const against = goalieGames.reduce((sum, game) => sum + goalsAgainst(game.team, game.scores), 0);
+
+    let streak = 0;
+    let longest = 0;
+    for (const result of outcomes) {
+      streak = result === "win" ? streak + 1 : 0;
+      longest = Math.max(longest, streak);
+    }
+
+    return {
+      player_id: playerId,
+      name: games[games.length - 1].name,
+      games: games.length,
+      wins: outcomes.filter(result => result === "win").length,
+      losses: outcomes.filter(result => result === "loss").length,
+      ties: outcomes.filter(result => result === "tie").length,
+      goals: scored,
+      assists,
+      points: scored + assists,
+      points_per_game: (scored + assists) / games.length,
+      goalie_games: goalieGames.length,
+      goals_against: against,
+      goals_against_average: goalieGames.length > 0 ? against / goalieGames.length : null,
+      win_streak: streak,
+      longest_win_streak: longest,
+    };
+  });
+
+  return stats.sort((a, b) => b.points - a.points || b.points_per_game - a.points_per_game || a.name.localeCompare(b.name));
+}
+
+// Top players of each category; goalies are ranked by the fewest goals against per game
+export function statsLeaders(stats: PlayerStats[]): StatsLeaders {
+  const top = (value: (player: PlayerStats) => number) =>
+    stats.filter(player => value(player) > 0)
+      .sort((a, b) => value(b) - value(a))
+      .slice(0, LEADERS)
+      .map(player => player.player_id);
+
+  return {
+    points: top(player => player.points),
+    goals: top(player => player.goals),
+    assists: top(player => player.assists),
+    wins: top(player => player.wins),
+    longest_win_streak: top(player => player.longest_win_streak),
+    goals_against_average: stats
+      .filter(player => player.goals_against_average !== null)
+      .sort((a, b) => a.goals_against_average! - b.goals_against_average!)
+      .slice(0, LEADERS)
+      .map(player => player.player_id),
+  };
+}
@@ -0,0 +1,35 @@
+import crypto from "crypto";
+import { PROTOCOL_VERSION, SyncEvent, WebSocketMessage } from "../src/types";
+
+// Events kept for pages that reconnect; a page that missed more gets a snapshot instead
+const REPLAY_LIMIT = 500;
+
+/**
+ * Numbers the events of this server run and keeps the latest ones, so a page that
+ * lost its connection can get exactly the events it missed.
+ */
+export function createEventLog() {
+  const epoch = crypto.randomBytes(4).toString("hex");
+  const recent: WebSocketMessage[] = [];
+  let seq = 0;
+
+  return {
+    epoch,
+    lastSeq: () => seq,
+
+    append(event: SyncEvent): WebSocketMessage {
+      const message = { ...event, v: PROTOCOL_VERSION, epoch, seq: ++seq };
+      recent.push(message);
+      if (recent.length > REPLAY_LIMIT) recent.shift();
+      return message;
+    },
+
+    // Events after the given one, or null when the page is from another run or missed too much
+    since(pageEpoch: string | null, after: number): WebSocketMessage[] | null {
+      if (pageEpoch !== epoch || after > seq) return null;
+      if (after === seq) return [];
+      const first = recent.length > 0 ? recent[0].seq : seq + 1;
+      return after + 1 >= first ? recent.filter(message => message.seq > after) : null;
+    },
+  };
+}
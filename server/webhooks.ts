@@ -0,0 +1,51 @@
+import crypto from "crypto";
+import { WebhookEvent } from "../src/types";
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ["signup", "cancellation", "teams_drawn", "game_reset"];
+
+// A delivery is given up after this many attempts, retried after 30 s, 1 min, 2 min, ...
+export const MAX_ATTEMPTS = 6;
+const FIRST_RETRY_SECONDS = 30;
+
+// Receivers that do not answer within this long count as failed attempts
+const TIMEOUT_MS = 10_000;
+
+export const retryDelaySeconds = (attempts: number) => FIRST_RETRY_SECONDS * 2 ** (attempts - 1);
+
+// Hex HMAC-SHA256 of the exact body, sent as "X-Hockey-Signature: sha256=<hex>"
+export const signPayload = (secret: string, body: string) =>
+  crypto.createHmac("sha256", secret).update(body).digest("hex");
+
+// What a receiver should do to check a delivery; constant time, so the signature cannot be guessed byte by byte
+export const verifySignature = (secret: string, body: string, header: string | undefined) => {
+  const expected = Buffer.from(`sha256=${signPayload(secret, body)}`);
+  const given = Buffer.from(header ?? "");
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+};
+
+export interface DeliveryOutcome {
+  ok: boolean;
+  status: number | null; // HTTP status, null when the receiver could not be reached
+  error: string | null;
+}
+
+/** Posts a signed payload once; any 2xx answer counts as delivered. */
+export async function sendWebhook(url: string, secret: string, deliveryId: number, event: string, body: string): Promise<DeliveryOutcome> {
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "hockey-signup-webhooks",
+        "X-Hockey-Event": event,
+        "X-Hockey-Delivery": String(deliveryId),
+        "X-Hockey-Signature": `sha256=${signPayload(secret, body)}`,
+      },
+      body,
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    return { ok: response.ok, status: response.status, error: response.ok ? null : response.statusText || `HTTP ${response.status}` };
+  } catch (error) {
+    return { ok: false, status: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -16,42 +16,95 @@ import {
   ClipboardList,
   UserCheck,
   Zap,
-  X
+  X,
+  Scale,
+  History,
+  CalendarDays,
+  Hourglass,
+  Link2,
+  Lock,
+  Unlock,
+  Sparkles,
+  Rows3,
+  BarChart3,
+  Wallet,
+  ImageDown,
+  Printer
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
-import { Player, GamePlayer, Position, WebSocketMessage } from './types';
+import { Player, GamePlayer, Game, GameFormat, GameGoal, Identity, Group, Position, PlayerBalance, PlayerConstraint, Team, TeamBalance, ApiErrorResponse, SyncEvent, SyncSnapshot } from './types';
+import { POSITION_LABELS, POSITION_ICONS, CONSTRAINT_LABELS, LINE_SIZES, formatGameDate, formatMoney } from './positions';
+import { TEAM_COLOR_CLASSES, findTeam } from './teams';
+import HistoryView from './components/HistoryView';
+import StatsView from './components/StatsView';
+import AttendanceView from './components/AttendanceView';
+import CostEditor from './components/CostEditor';
+import WebhookEditor from './components/WebhookEditor';
+import GroupList from './components/GroupList';
+import LedgerEditor from './components/LedgerEditor';
+import PlayerImport from './components/PlayerImport';
+import ChatImport from './components/ChatImport';
+import ActivityFeed from './components/ActivityFeed';
+import ResultForm from './components/ResultForm';
+import RatingTrend from './components/RatingTrend';
+import PlayerEditor from './components/PlayerEditor';
+import ConstraintEditor from './components/ConstraintEditor';
+import MySignup from './components/MySignup';
+import ScheduleEditor from './components/ScheduleEditor';
+import FormatEditor from './components/FormatEditor';
+import VarietyEditor from './components/VarietyEditor';
+import SignupCountdown from './components/SignupCountdown';
+import DrawLog from './components/DrawLog';
+import LiveGame from './components/LiveGame';
+import { apiFetch, apiUrl } from './api';
+import { openSync } from './sync';
 
-const POSITION_LABELS: Record<Position, string> = {
-  forward: 'Útočník',
-  defense: 'Obranca',
-  goalie: 'Brankár'
-};
-
-const POSITION_ICONS: Record<Position, React.ReactNode> = {
-  forward: <Sword className="w-4 h-4" />,
-  defense: <Shield className="w-4 h-4" />,
-  goalie: <Goal className="w-4 h-4" />
-};
+const DEFAULT_RATING = 1000;
 
 export default function App() {
   const [regulars, setRegulars] = useState<Player[]>([]);
   const [gamePlayers, setGamePlayers] = useState<GamePlayer[]>([]);
+  const [game, setGame] = useState<Game | null>(null);
+  const [group, setGroup] = useState<Group | null>(null);
+  const [goals, setGoals] = useState<GameGoal[]>([]);
+  const [identity, setIdentity] = useState<Identity>({ role: 'viewer', player: null });
+  const [view, setView] = useState<'game' | 'history' | 'stats'>('game');
   const [newName, setNewName] = useState('');
   const [newPosition, setNewPosition] = useState<Position>('forward');
+  const [newRating, setNewRating] = useState(DEFAULT_RATING);
   const [loading, setLoading] = useState(true);
   const [isShuffling, setIsShuffling] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [balance, setBalance] = useState<TeamBalance | null>(null);
+  const [freshness, setFreshness] = useState<number | null>(null);
+  const [balances, setBalances] = useState<PlayerBalance[]>([]);
+  const [unmetRules, setUnmetRules] = useState<PlayerConstraint[]>([]);
+  const [expandedPlayerId, setExpandedPlayerId] = useState<number | null>(null);
+  const [showInactive, setShowInactive] = useState(false);
+  const [guestName, setGuestName] = useState('');
+  const [guestPosition, setGuestPosition] = useState<Position>('forward');
 
   const fetchData = useCallback(async () => {
     try {
-      const [playersRes, gameRes] = await Promise.all([
-        fetch('/api/players'),
-        fetch('/api/current-game')
+      const [playersRes, gameRes, currentGameRes, meRes, goalsRes] = await Promise.all([
+        apiFetch('/api/players'),
+        apiFetch('/api/current-game'),
+        apiFetch('/api/games/current'),
+        apiFetch('/api/me'),
+        apiFetch('/api/current-game/goals')
       ]);
       const playersData = await playersRes.json();
       const gameData = await gameRes.json();
+      const me: Identity = await meRes.json();
       setRegulars(playersData);
       setGamePlayers(gameData);
+      setGame(await currentGameRes.json());
+      setIdentity(me);
+      setGoals(await goalsRes.json());
+      if (me.role === 'organizer') {
+        const balancesRes = await apiFetch('/api/balances');
+        setBalances(await balancesRes.json());
+      }
     } catch (error) {
       console.error('Error fetching data:', error);
     } finally {
@@ -60,13 +113,16 @@ export default function App() {
   }, []);
 
   useEffect(() => {
-    fetchData();
+    apiFetch('/api/group')
+      .then(res => res.json())
+      .then(setGroup)
+      .catch(error => console.error('Error fetching group:', error));
+  }, []);
 
-    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-    const socket = new WebSocket(`${protocol}//${window.location.host}`);
+  useEffect(() => {
+    fetchData();
 
-    socket.onmessage = (event) => {
-      const message: WebSocketMessage = JSON.parse(event.data);
+    const applyEvent = (message: SyncEvent) => {
       switch (message.type) {
         case 'SIGNUP_UPDATE':
           setGamePlayers(prev => {
@@ -76,45 +132,112 @@ export default function App() {
           });
           break;
         case 'SIGNUP_REMOVED':
-          setGamePlayers(prev => prev.filter(p => p.id !== (message as any).id));
+          setGamePlayers(prev => prev.filter(p => p.id !== message.id));
+          break;
+        case 'PLAYERS_UPDATED':
+          fetchData();
+          break;
+        case 'SIGNUP_PROMOTED':
+          setGamePlayers(prev => prev.map(p => p.id === message.data.id ? message.data : p));
           break;
         case 'TEAMS_UPDATED':
-        case 'GAME_RESET':
+          setBalance(message.balance ?? null);
+          setFreshness(message.freshness ?? null);
+          setUnmetRules(message.unmet ?? []);
+          setGamePlayers(message.data);
+          break;
+        case 'GAME_UPDATED':
+          setGame(message.data);
+          break;
+        case 'CLOCK_UPDATED':
+          setGame(prev => prev?.id === message.game_id ? { ...prev, clock: message.clock } : prev);
+          break;
+        case 'GOAL_SCORED':
+          setGoals(prev => prev.some(goal => goal.id === message.data.id) ? prev : [...prev, message.data]);
+          break;
+        case 'GOAL_REMOVED':
+          setGoals(prev => prev.filter(goal => goal.id !== message.id));
+          break;
+        case 'RESULT_RECORDED':
+          setGame(prev => prev?.id === message.data.id ? message.data : prev);
           fetchData();
           break;
+        case 'GAME_RESET':
+          setBalance(null);
+          setFreshness(null);
+          setUnmetRules([]);
+          setGame(message.data);
+          setGamePlayers([]);
+          setGoals([]);
+          break;
+        case 'GROUP_UPDATED':
+          setGroup(message.data);
+          break;
+        case 'STATE_RESTORED':
+          applySnapshot(message.data);
+          break;
       }
     };
 
-    return () => socket.close();
+    // Missed too much to replay, or a change was undone: take the open game as it is now
+    const applySnapshot = (snapshot: SyncSnapshot) => {
+      setGame(snapshot.game);
+      setGamePlayers(snapshot.signups);
+      setGoals(snapshot.goals);
+    };
+
+    return openSync(applyEvent, applySnapshot);
   }, [fetchData]);
 
+  // Signups within the cap; the rest wait in line for a free slot in their position
+  const roster = gamePlayers.filter(p => !p.waitlisted);
+  const waitlist = gamePlayers.filter(p => p.waitlisted);
+
   const addRegular = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newName.trim()) return;
     try {
-      const res = await fetch('/api/players', {
+      const res = await apiFetch('/api/players', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name: newName, position: newPosition }),
+        body: JSON.stringify({ name: newName, position: newPosition, rating: newRating }),
       });
       const newPlayer = await res.json();
       setRegulars(prev => [...prev, newPlayer]);
       setNewName('');
+      setNewRating(DEFAULT_RATING);
     } catch (error) {
       console.error('Error adding player:', error);
     }
   };
 
-  const signUp = async (player: { name: string, position: Position }) => {
-    if (gamePlayers.length >= 22) {
-      alert('Maximálny počet hráčov (22) bol dosiahnutý.');
-      return;
+  const updateRating = async (player: Player, rating: number) => {
+    if (!Number.isFinite(rating) || rating === Math.round(player.rating)) return;
+    try {
+      const res = await apiFetch(`/api/players/${player.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rating }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        alert(error.error);
+        return;
+      }
+      const updated: Player = await res.json();
+      setRegulars(prev => prev.map(p => p.id === updated.id ? updated : p));
+    } catch (error) {
+      console.error('Error updating rating:', error);
     }
+  };
+
+  // Registered players are signed up by id, guests by name and position
+  const signUp = async (signup: { playerId: number } | { name: string, position: Position }) => {
     try {
-      const res = await fetch('/api/current-game/signup', {
+      const res = await apiFetch('/api/current-game/signup', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name: player.name, position: player.position }),
+        body: JSON.stringify(signup),
       });
       if (!res.ok) {
         const error = await res.json();
@@ -125,9 +248,16 @@ export default function App() {
     }
   };
 
+  const signUpGuest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!guestName.trim()) return;
+    await signUp({ name: guestName, position: guestPosition });
+    setGuestName('');
+  };
+
   const removeSignUp = async (id: number) => {
     try {
-      await fetch('/api/current-game/remove', {
+      await apiFetch('/api/current-game/remove', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ id }),
@@ -137,77 +267,113 @@ export default function App() {
     }
   };
 
+  const updateGame = async (changes: Partial<Pick<Game, 'date' | 'venue' | 'start_time' | 'ice_cost'>>) => {
+    if (!game) return;
+    try {
+      const res = await apiFetch(`/api/games/${game.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        alert(error.error);
+        return;
+      }
+      setGame(await res.json());
+    } catch (error) {
+      console.error('Error updating game:', error);
+    }
+  };
+
   const resetGame = async () => {
-    if (!confirm('Naozaj chcete vymazať zoznam na tento týždeň?')) return;
+    if (!confirm('Naozaj chcete uzavrieť tento zápas a otvoriť ďalší?')) return;
     try {
-      await fetch('/api/current-game/reset', { method: 'POST' });
+      await apiFetch('/api/current-game/reset', { method: 'POST' });
     } catch (error) {
       console.error('Error resetting game:', error);
     }
   };
 
-  const toggleTeam = async (player: GamePlayer) => {
-    const nextTeam = player.team === 'red' ? 'blue' : player.team === 'blue' ? null : 'red';
+  // Placing a player by hand locks them to the team, so the next draw only moves the others
+  const assignTeam = async (player: GamePlayer, team: Team | null, locked = true) => {
     try {
-      await fetch('/api/current-game/split', {
+      await apiFetch('/api/current-game/split', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ teams: [{ id: player.id, team: nextTeam }] }),
+        body: JSON.stringify({ teams: [{ id: player.id, team, locked }] }),
       });
     } catch (error) {
-      console.error('Error toggling team:', error);
+      console.error('Error assigning team:', error);
     }
   };
 
-  const splitTeams = async () => {
-    if (gamePlayers.length < 2) {
-      alert('Potrebujete aspoň 2 hráčov na rozlosovanie.');
-      return;
-    }
-    
-    setIsShuffling(true);
-    
-    // Artificial delay for effect
-    await new Promise(resolve => setTimeout(resolve, 2000));
-
-    const goalies = gamePlayers.filter(p => p.position === 'goalie');
-    const defenders = gamePlayers.filter(p => p.position === 'defense');
-    const forwards = gamePlayers.filter(p => p.position === 'forward');
-
-    const shuffle = <T,>(array: T[]) => [...array].sort(() => Math.random() - 0.5);
-
-    const sGoalies = shuffle<GamePlayer>(goalies);
-    const sDefenders = shuffle<GamePlayer>(defenders);
-    const sForwards = shuffle<GamePlayer>(forwards);
+  // Clicking cycles through the teams of the format and back to unassigned
+  const toggleTeam = (player: GamePlayer) => {
+    if (!game) return;
+    const ids = game.format.teams.map(team => team.id);
+    const next = player.team === null ? 0 : ids.indexOf(player.team) + 1;
+    assignTeam(player, next < ids.length ? ids[next] : null);
+  };
 
-    const teamsUpdate: { id: number; team: 'red' | 'blue' | null }[] = [];
+  const toggleLock = (player: GamePlayer) => assignTeam(player, player.team, !player.locked);
 
-    // Reset all first
-    gamePlayers.forEach(p => teamsUpdate.push({ id: p.id, team: null }));
+  const moveToLine = async (player: GamePlayer, line: number | null) => {
+    try {
+      const res = await apiFetch('/api/current-game/lines', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ lines: [{ id: player.id, line }] }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        alert(error.error);
+      }
+    } catch (error) {
+      console.error('Error moving player to line:', error);
+    }
+  };
 
-    // Strict assignment: 1 Goalie per team
-    if (sGoalies.length >= 1) teamsUpdate.find(u => u.id === sGoalies[0].id)!.team = 'red';
-    if (sGoalies.length >= 2) teamsUpdate.find(u => u.id === sGoalies[1].id)!.team = 'blue';
+  const generateLines = async () => {
+    try {
+      await apiFetch('/api/current-game/lines/generate', { method: 'POST' });
+    } catch (error) {
+      console.error('Error generating lines:', error);
+    }
+  };
 
-    // Strict assignment: 4 Defenders per team
-    const redDefenders = sDefenders.slice(0, 4);
-    const blueDefenders = sDefenders.slice(4, 8);
-    redDefenders.forEach(p => teamsUpdate.find(u => u.id === p.id)!.team = 'red');
-    blueDefenders.forEach(p => teamsUpdate.find(u => u.id === p.id)!.team = 'blue');
+  const dropOnTeam = (team: Team) => (e: React.DragEvent) => {
+    e.preventDefault();
+    const player = roster.find(p => p.id === Number(e.dataTransfer.getData('text/plain')));
+    if (player && player.team !== team) assignTeam(player, team);
+  };
 
-    // Strict assignment: 6 Forwards per team
-    const redForwards = sForwards.slice(0, 6);
-    const blueForwards = sForwards.slice(6, 12);
-    redForwards.forEach(p => teamsUpdate.find(u => u.id === p.id)!.team = 'red');
-    blueForwards.forEach(p => teamsUpdate.find(u => u.id === p.id)!.team = 'blue');
+  const splitTeams = async () => {
+    setIsShuffling(true);
+    
+    // Artificial delay for effect
+    await new Promise(resolve => setTimeout(resolve, 2000));
 
     try {
-      const res = await fetch('/api/current-game/split', {
+      const draw = (force: boolean) => apiFetch('/api/current-game/draw', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ teams: teamsUpdate }),
+        body: JSON.stringify({ force }),
       });
-      if (!res.ok) throw new Error('Failed to split');
+      let res = await draw(false);
+      let result = await res.json();
+      if (!res.ok && (result as ApiErrorResponse).code === 'NOT_ENOUGH_GOALIES') {
+        if (!confirm(`${result.error} Rozlosovať aj tak?`)) return;
+        res = await draw(true);
+        result = await res.json();
+      }
+      if (!res.ok) {
+        alert((result as ApiErrorResponse).error);
+        return;
+      }
+      setBalance(result.balance);
+      setFreshness(result.freshness);
+      setUnmetRules(result.unmet);
     } catch (error) {
       console.error('Error splitting teams:', error);
       alert('Nepodarilo sa rozlosovať tímy.');
@@ -217,17 +383,28 @@ export default function App() {
   };
 
   const copyTeams = () => {
-    const redTeam = gamePlayers.filter(p => p.team === 'red');
-    const blueTeam = gamePlayers.filter(p => p.team === 'blue');
-
+    if (!game) return;
+    // Players out of position get their own position in brackets
+    const names = (team: GamePlayer[], position: Position) => team
+      .filter(p => playedPosition(p) === position)
+      .map(p => p.played_position ? `${p.name} (${POSITION_LABELS[p.position].toLowerCase()})` : p.name)
+      .join(', ') || '-';
+    const lines = (team: GamePlayer[], position: Position) => groupLines(team.filter(p => playedPosition(p) === position))
+      .flatMap((line, index) => line.length > 0 ? [`${index + 1}. ${line.map(p => p.name).join(' – ')}`] : [])
+      .join(' | ');
     const formatTeam = (name: string, team: GamePlayer[]) => {
-      const g = team.filter(p => p.position === 'goalie').map(p => p.name).join(', ') || '-';
-      const d = team.filter(p => p.position === 'defense').map(p => p.name).join(', ') || '-';
-      const f = team.filter(p => p.position === 'forward').map(p => p.name).join(', ') || '-';
-      return `*${name} TÍM*\n🥅 Brankár: ${g}\n🛡️ Obrana: ${d}\n⚔️ Útok: ${f}`;
+      const g = names(team, 'goalie');
+      const d = names(team, 'defense');
+      const f = names(team, 'forward');
+      const pairs = lines(team, 'defense');
+      const trios = lines(team, 'forward');
+      return `*${name} TÍM*\n🥅 Brankár: ${g}\n🛡️ Obrana: ${d}\n⚔️ Útok: ${f}` +
+        (pairs ? `\n🔗 Páry: ${pairs}` : '') +
+        (trios ? `\n🔗 Útoky: ${trios}` : '');
     };
 
-    const text = `🏒 *ROZLOSOVANIE HOKEJOVÝCH TÍMOV*\n\n${formatTeam('ČERVENÝ', redTeam)}\n\n${formatTeam('MODRÝ', blueTeam)}\n\n_Vygenerované cez Rozlosovanie hokej_`;
+    const teams = game.format.teams.map(team => formatTeam(team.name.toUpperCase(), gamePlayers.filter(p => p.team === team.id)));
+    const text = `🏒 *ROZLOSOVANIE HOKEJOVÝCH TÍMOV*\n\n${teams.join('\n\n')}\n\n_Vygenerované cez Rozlosovanie hokej_`;
     navigator.clipboard.writeText(text);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
@@ -242,10 +419,20 @@ export default function App() {
     );
   }
 
-  const redTeam = gamePlayers.filter(p => p.team === 'red');
-  const blueTeam = gamePlayers.filter(p => p.team === 'blue');
-  const unassigned = gamePlayers.filter(p => p.team === null);
-  const goalieCount = gamePlayers.filter(p => p.position === 'goalie').length;
+  if (identity.role === 'player') {
+    return <MySignup identity={identity} game={game} gamePlayers={gamePlayers} byReliability={group?.waitlist_by_reliability ?? false} />;
+  }
+
+  const isOrganizer = identity.role === 'organizer';
+  const nameOf = (playerId: number) => regulars.find(p => p.id === playerId)?.name ?? '?';
+  const balanceOf = (playerId: number) => balances.find(b => b.player_id === playerId)?.balance;
+  const totalDebt = balances.reduce((sum, b) => b.balance < 0 ? sum - b.balance : sum, 0);
+  const teams = game?.format.teams ?? [];
+  const teamPlayers = (team: Team) => gamePlayers.filter(p => p.team === team);
+  const maxPlayers = game?.format.maxPlayers ?? 0;
+  const goaliesNeeded = (game?.format.slots.goalie ?? 0) * teams.length;
+  const unassigned = roster.filter(p => p.team === null);
+  const goalieCount = roster.filter(p => p.position === 'goalie').length;
 
   return (
     <div className="min-h-screen bg-[#050505] text-white font-sans selection:bg-red-600 selection:text-white hockey-grid">
@@ -259,7 +446,7 @@ export default function App() {
           </div>
           <div>
             <h1 className="text-3xl font-display font-black tracking-tighter leading-none italic">
-              ROZLOSOVANIE <span className="text-red-600">HOKEJ</span>
+              ROZLOSOVANIE <span className="text-red-600">{group ? group.name.toUpperCase() : 'HOKEJ'}</span>
             </h1>
             <div className="flex gap-3 mt-1.5">
               <p className="text-[9px] font-mono uppercase tracking-[0.2em] opacity-30">
@@ -267,7 +454,7 @@ export default function App() {
               </p>
               <div className="w-1 h-1 bg-white/20 rounded-full self-center"></div>
               <p className="text-[9px] font-mono uppercase tracking-[0.2em] text-red-600 font-bold">
-                Live Session
+                {game ? `${formatGameDate(game.date)}${game.start_time ? ` · ${game.start_time}` : ''}` : 'Live Session'}
               </p>
             </div>
           </div>
@@ -275,295 +462,569 @@ export default function App() {
 
         <div className="flex items-center gap-4">
           <div className="hidden xl:flex items-center gap-6 mr-6 border-r border-white/10 pr-6">
+            {game && <SignupCountdown game={game} />}
             <div className="text-right">
               <p className="text-[10px] font-mono uppercase opacity-30">Hráči</p>
-              <p className="text-lg font-display font-bold">{gamePlayers.length}<span className="text-white/20">/22</span></p>
+              <p className="text-lg font-display font-bold">{roster.length}<span className="text-white/20">/{maxPlayers}</span></p>
             </div>
             <div className="text-right">
               <p className="text-[10px] font-mono uppercase opacity-30">Brankári</p>
-              <p className={`text-lg font-display font-bold ${goalieCount === 2 ? 'text-green-500' : 'text-red-500'}`}>
-                {goalieCount}<span className="text-white/20">/2</span>
+              <p className={`text-lg font-display font-bold ${goalieCount === goaliesNeeded ? 'text-green-500' : 'text-red-500'}`}>
+                {goalieCount}<span className="text-white/20">/{goaliesNeeded}</span>
               </p>
             </div>
           </div>
 
+          {isOrganizer && (
+            <button 
+              onClick={splitTeams}
+              disabled={roster.length < 2 || isShuffling}
+              className={`relative group flex items-center gap-3 bg-white text-black px-8 py-3.5 rounded-full font-black uppercase text-xs tracking-[0.15em] transition-all hover:scale-105 active:scale-95 disabled:opacity-20 disabled:hover:scale-100 overflow-hidden shadow-2xl shadow-white/10`}
+            >
+              {isShuffling ? (
+                <div className="flex items-center gap-3">
+                  <div className="w-4 h-4 border-2 border-black border-t-transparent rounded-full animate-spin"></div>
+                  Žrebujem...
+                </div>
+              ) : (
+                <>
+                  <Shuffle className="w-4 h-4" /> Rozlosovať Tímy
+                </>
+              )}
+              <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/30 to-transparent -translate-x-full group-hover:translate-x-full transition-transform duration-1000"></div>
+            </button>
+          )}
+          
           <button 
-            onClick={splitTeams}
-            disabled={gamePlayers.length < 2 || isShuffling}
-            className={`relative group flex items-center gap-3 bg-white text-black px-8 py-3.5 rounded-full font-black uppercase text-xs tracking-[0.15em] transition-all hover:scale-105 active:scale-95 disabled:opacity-20 disabled:hover:scale-100 overflow-hidden shadow-2xl shadow-white/10`}
+            onClick={() => setView(view === 'history' ? 'game' : 'history')}
+            className={`p-3.5 rounded-full border transition-all ${view === 'history' ? 'bg-white text-black border-white' : 'border-white/10 hover:bg-white/5'}`}
+            title="História zápasov"
           >
-            {isShuffling ? (
-              <div className="flex items-center gap-3">
-                <div className="w-4 h-4 border-2 border-black border-t-transparent rounded-full animate-spin"></div>
-                Žrebujem...
-              </div>
-            ) : (
-              <>
-                <Shuffle className="w-4 h-4" /> Rozlosovať Tímy
-              </>
-            )}
-            <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/30 to-transparent -translate-x-full group-hover:translate-x-full transition-transform duration-1000"></div>
+            <History className={`w-5 h-5 ${view === 'history' ? '' : 'opacity-40'}`} />
           </button>
-          
+
           <button 
-            onClick={resetGame}
-            className="p-3.5 rounded-full border border-white/10 hover:bg-white/5 transition-all hover:rotate-180 duration-500"
-            title="Resetovať týždeň"
+            onClick={() => setView(view === 'stats' ? 'game' : 'stats')}
+            className={`p-3.5 rounded-full border transition-all ${view === 'stats' ? 'bg-white text-black border-white' : 'border-white/10 hover:bg-white/5'}`}
+            title="Štatistiky"
           >
-            <RotateCcw className="w-5 h-5 opacity-40" />
+            <BarChart3 className={`w-5 h-5 ${view === 'stats' ? '' : 'opacity-40'}`} />
           </button>
+
+          {isOrganizer && (
+            <button 
+              onClick={resetGame}
+              className="p-3.5 rounded-full border border-white/10 hover:bg-white/5 transition-all hover:rotate-180 duration-500"
+              title="Uzavrieť zápas a otvoriť ďalší"
+            >
+              <RotateCcw className="w-5 h-5 opacity-40" />
+            </button>
+          )}
         </div>
       </header>
 
-      <main className="max-w-[1800px] mx-auto p-8 grid grid-cols-1 lg:grid-cols-12 gap-10">
+      {view === 'history' ? (
+        <main className="max-w-[1800px] mx-auto p-8">
+          <HistoryView canEdit={isOrganizer} />
+        </main>
+      ) : view === 'stats' ? (
+        <main className="max-w-[1800px] mx-auto p-8 space-y-10">
+          <StatsView />
+          {isOrganizer && <AttendanceView />}
+        </main>
+      ) : (
+        <main className="max-w-[1800px] mx-auto p-8 grid grid-cols-1 lg:grid-cols-12 gap-10">
         
-        {/* Left Sidebar: Roster Management */}
-        <div className="lg:col-span-3 space-y-8">
-          <section className="glass rounded-[2.5rem] p-8 border border-white/5 relative overflow-hidden">
-            <div className="absolute top-0 right-0 w-32 h-32 bg-red-600/5 blur-[60px] rounded-full"></div>
-            <h2 className="text-[10px] font-mono uppercase tracking-[0.3em] mb-8 opacity-40 flex items-center gap-3">
-              <UserPlus className="w-4 h-4" /> Nový Hráč
-            </h2>
-            <form onSubmit={addRegular} className="space-y-5">
-              <div className="relative">
-                <input 
-                  type="text" 
-                  value={newName}
-                  onChange={e => setNewName(e.target.value)}
-                  placeholder="Meno a priezvisko"
-                  className="w-full bg-white/5 border border-white/10 rounded-2xl p-5 text-sm font-bold focus:outline-none focus:border-red-600/50 transition-all placeholder:opacity-20"
-                />
-              </div>
-              <div className="grid grid-cols-1 gap-2">
-                {(['forward', 'defense', 'goalie'] as Position[]).map(pos => (
-                  <button
-                    key={pos}
-                    type="button"
-                    onClick={() => setNewPosition(pos)}
-                    className={`flex items-center justify-between px-5 py-4 rounded-2xl border text-[11px] font-bold uppercase tracking-widest transition-all ${
-                      newPosition === pos 
-                        ? 'bg-red-600 border-red-600 text-white shadow-xl shadow-red-600/30' 
-                        : 'bg-white/5 border-white/10 hover:bg-white/10'
-                    }`}
-                  >
-                    <span>{POSITION_LABELS[pos]}</span>
-                    <div className="opacity-40">{POSITION_ICONS[pos]}</div>
-                  </button>
-                ))}
-              </div>
-              <button className="w-full bg-white text-black py-5 rounded-2xl text-xs font-black uppercase tracking-[0.2em] hover:bg-zinc-200 transition-all active:scale-95 shadow-xl shadow-white/5">
-                Pridať do systému
-              </button>
-            </form>
-          </section>
-
-          <section className="glass rounded-[2.5rem] p-8 border border-white/5">
-            <h2 className="text-[10px] font-mono uppercase tracking-[0.3em] mb-8 opacity-40 flex items-center gap-3">
-              <UserCheck className="w-4 h-4" /> Databáza Hráčov
-            </h2>
-            <div className="space-y-3 max-h-[600px] overflow-y-auto pr-3 custom-scrollbar">
-              {regulars.sort((a,b) => a.name.localeCompare(b.name)).map(player => (
-                <div key={player.id} className="flex items-center justify-between p-4 rounded-2xl bg-white/3 border border-white/5 group hover:bg-white/5 hover:border-white/10 transition-all">
-                  <div className="flex items-center gap-4">
-                    <div className="w-10 h-10 rounded-xl bg-white/5 flex items-center justify-center text-white/30 group-hover:text-red-600 transition-colors">
-                      {POSITION_ICONS[player.position]}
-                    </div>
-                    <div>
-                      <p className="text-sm font-bold tracking-tight">{player.name}</p>
-                      <p className="text-[9px] font-mono uppercase opacity-30 tracking-widest mt-0.5">{POSITION_LABELS[player.position]}</p>
+          {/* Left Sidebar: Roster Management */}
+          {isOrganizer && (
+            <div className="lg:col-span-3 space-y-8">
+              {game && (
+                <section className="glass rounded-[2.5rem] p-8 border border-white/5">
+                  <h2 className="text-[10px] font-mono uppercase tracking-[0.3em] mb-6 opacity-40 flex items-center gap-3">
+                    <CalendarDays className="w-4 h-4" /> Zápas
+                  </h2>
+                  <div className="space-y-3">
+                    <div className="flex gap-2">
+                      <input 
+                        type="date"
+                        value={game.date}
+                        onChange={e => e.target.value && updateGame({ date: e.target.value })}
+                        className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-2xl px-5 py-3 text-sm font-bold focus:outline-none focus:border-red-600/50 transition-all [color-scheme:dark]"
+                      />
+                      <input 
+                        type="time"
+                        value={game.start_time ?? ''}
+                        onChange={e => updateGame({ start_time: e.target.value || null })}
+                        className="bg-white/5 border border-white/10 rounded-2xl px-4 py-3 text-sm font-bold focus:outline-none focus:border-red-600/50 transition-all [color-scheme:dark]"
+                      />
                     </div>
+                    <input 
+                      key={`${game.id}-${game.venue}`}
+                      type="text"
+                      defaultValue={game.venue}
+                      onBlur={e => e.target.value !== game.venue && updateGame({ venue: e.target.value })}
+                      placeholder="Štadión"
+                      className="w-full bg-white/5 border border-white/10 rounded-2xl px-5 py-3 text-sm font-bold focus:outline-none focus:border-red-600/50 transition-all placeholder:opacity-20"
+                    />
+                    <label className="flex items-center justify-between gap-4 bg-white/5 border border-white/10 rounded-2xl px-5 py-3">
+                      <span className="text-[10px] font-mono uppercase tracking-[0.2em] opacity-40">Cena ľadu (€)</span>
+                      <input
+                        key={`${game.id}-${game.ice_cost}`}
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        defaultValue={game.ice_cost === null ? '' : game.ice_cost / 100}
+                        onBlur={e => {
+                          const iceCost = e.target.value === '' ? null : Math.round(Number(e.target.value) * 100);
+                          if (iceCost !== game.ice_cost) updateGame({ ice_cost: iceCost });
+                        }}
+                        className="w-24 bg-transparent text-right text-sm font-bold focus:outline-none"
+                      />
+                    </label>
                   </div>
+                </section>
+              )}
+
+              {game && <FormatEditor game={game} onSaved={setGame} />}
+
+              <ActivityFeed game={game} signups={gamePlayers} players={regulars} />
+              <ScheduleEditor />
+              <VarietyEditor />
+              <CostEditor />
+              <WebhookEditor />
+              <GroupList />
+
+              <section className="glass rounded-[2.5rem] p-8 border border-white/5 relative overflow-hidden">
+                <div className="absolute top-0 right-0 w-32 h-32 bg-red-600/5 blur-[60px] rounded-full"></div>
+                <h2 className="text-[10px] font-mono uppercase tracking-[0.3em] mb-8 opacity-40 flex items-center gap-3">
+                  <UserPlus className="w-4 h-4" /> Nový Hráč
+                </h2>
+                <form onSubmit={addRegular} className="space-y-5">
+                  <div className="relative">
+                    <input 
+                      type="text" 
+                      value={newName}
+                      onChange={e => setNewName(e.target.value)}
+                      placeholder="Meno a priezvisko"
+                      className="w-full bg-white/5 border border-white/10 rounded-2xl p-5 text-sm font-bold focus:outline-none focus:border-red-600/50 transition-all placeholder:opacity-20"
+                    />
+                  </div>
+                  <label className="flex items-center justify-between gap-4 bg-white/5 border border-white/10 rounded-2xl px-5 py-3">
+                    <span className="text-[10px] font-mono uppercase tracking-[0.2em] opacity-40">Hodnotenie</span>
+                    <input 
+                      type="number"
+                      step={50}
+                      value={newRating}
+                      onChange={e => setNewRating(Number(e.target.value))}
+                      className="w-24 bg-transparent text-right text-sm font-bold focus:outline-none"
+                    />
+                  </label>
+                  <div className="grid grid-cols-1 gap-2">
+                    {(['forward', 'defense', 'goalie'] as Position[]).map(pos => (
+                      <button
+                        key={pos}
+                        type="button"
+                        onClick={() => setNewPosition(pos)}
+                        className={`flex items-center justify-between px-5 py-4 rounded-2xl border text-[11px] font-bold uppercase tracking-widest transition-all ${
+                          newPosition === pos 
+                            ? 'bg-red-600 border-red-600 text-white shadow-xl shadow-red-600/30' 
+                            : 'bg-white/5 border-white/10 hover:bg-white/10'
+                        }`}
+                      >
+                        <span>{POSITION_LABELS[pos]}</span>
+                        <div className="opacity-40">{POSITION_ICONS[pos]}</div>
+                      </button>
+                    ))}
+                  </div>
+                  <button className="w-full bg-white text-black py-5 rounded-2xl text-xs font-black uppercase tracking-[0.2em] hover:bg-zinc-200 transition-all active:scale-95 shadow-xl shadow-white/5">
+                    Pridať do systému
+                  </button>
+                </form>
+              </section>
+
+              <PlayerImport onImported={fetchData} />
+              <ChatImport players={regulars} />
+
+              <section className="glass rounded-[2.5rem] p-8 border border-white/5">
+                <div className="flex items-center justify-between mb-8">
+                  <h2 className="text-[10px] font-mono uppercase tracking-[0.3em] opacity-40 flex items-center gap-3">
+                    <UserCheck className="w-4 h-4" /> Databáza Hráčov
+                  </h2>
+                  {totalDebt > 0 && (
+                    <span className="text-[9px] font-mono uppercase tracking-widest text-red-500 flex items-center gap-1.5" title="Nesplatené dlhy spolu">
+                      <Wallet className="w-3.5 h-3.5" /> {formatMoney(totalDebt)}
+                    </span>
+                  )}
                   <button 
-                    onClick={() => signUp(player)}
-                    disabled={gamePlayers.some(gp => gp.name === player.name)}
-                    className={`p-3 rounded-xl transition-all ${
-                      gamePlayers.some(gp => gp.name === player.name) 
-                        ? 'bg-green-600/20 text-green-500' 
-                        : 'bg-white/5 hover:bg-white/20 text-white/30 hover:text-white'
-                    }`}
+                    onClick={() => setShowInactive(!showInactive)}
+                    className={`text-[9px] font-mono uppercase tracking-widest transition-opacity ${showInactive ? 'opacity-80' : 'opacity-30 hover:opacity-60'}`}
                   >
-                    {gamePlayers.some(gp => gp.name === player.name) ? <CheckCircle2 className="w-5 h-5" /> : <Plus className="w-5 h-5" />}
+                    {showInactive ? 'Skryť neaktívnych' : 'Aj neaktívni'}
                   </button>
                 </div>
-              ))}
+                <div className="space-y-3 max-h-[600px] overflow-y-auto pr-3 custom-scrollbar">
+                  {regulars.filter(p => showInactive || p.active).sort((a,b) => a.name.localeCompare(b.name)).map(player => (
+                    <div key={player.id} className={`p-4 rounded-2xl bg-white/3 border border-white/5 group hover:bg-white/5 hover:border-white/10 transition-all ${player.active ? '' : 'opacity-40'}`}>
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-4">
+                          <div className="w-10 h-10 rounded-xl bg-white/5 flex items-center justify-center text-white/30 group-hover:text-red-600 transition-colors">
+                            {POSITION_ICONS[player.position]}
+                          </div>
+                          <div>
+                            <button 
+                              onClick={() => setExpandedPlayerId(expandedPlayerId === player.id ? null : player.id)}
+                              className="text-sm font-bold tracking-tight hover:text-red-500 transition-colors"
+                              title="Upraviť hráča"
+                            >
+                              {player.name}
+                            </button>
+                            <p className="text-[9px] font-mono uppercase opacity-30 tracking-widest mt-0.5">
+                              {[player.position, ...player.secondary_positions].map(pos => POSITION_LABELS[pos]).join(' · ')}
+                            </p>
+                            {(balanceOf(player.id) ?? 0) < 0 && (
+                              <p className="text-[9px] font-mono font-bold text-red-500 tracking-widest mt-0.5" title="Dlh za ľad">
+                                {formatMoney(balanceOf(player.id)!)}
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                        <input 
+                          key={player.rating}
+                          type="number"
+                          step={50}
+                          defaultValue={Math.round(player.rating)}
+                          onBlur={e => updateRating(player, Number(e.target.value))}
+                          title="Hodnotenie hráča"
+                          className="ml-auto mr-3 w-16 bg-transparent text-right text-xs font-mono opacity-40 focus:opacity-100 focus:outline-none"
+                        />
+                        <button 
+                          onClick={() => signUp({ playerId: player.id })}
+                          disabled={gamePlayers.some(gp => gp.player_id === player.id)}
+                          className={`p-3 rounded-xl transition-all ${
+                            gamePlayers.some(gp => gp.player_id === player.id) 
+                              ? 'bg-green-600/20 text-green-500' 
+                              : 'bg-white/5 hover:bg-white/20 text-white/30 hover:text-white'
+                          }`}
+                        >
+                          {waitlist.some(gp => gp.player_id === player.id) ? <Hourglass className="w-5 h-5" /> : gamePlayers.some(gp => gp.player_id === player.id) ? <CheckCircle2 className="w-5 h-5" /> : <Plus className="w-5 h-5" />}
+                        </button>
+                      </div>
+                      {expandedPlayerId === player.id && (
+                        <>
+                          <RatingTrend player={player} />
+                          <PlayerEditor player={player} players={regulars} onChanged={fetchData} />
+                          <ConstraintEditor player={player} players={regulars} />
+                          <LedgerEditor player={player} onChanged={fetchData} />
+                        </>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </section>
             </div>
-          </section>
-        </div>
+          )}
 
-        {/* Center: Current Roster */}
-        <div className="lg:col-span-4 space-y-8">
-          <section className="glass rounded-[2.5rem] p-10 border border-white/5 min-h-[800px] relative">
-            <div className="absolute top-0 left-1/2 -translate-x-1/2 w-1/2 h-1 bg-gradient-to-r from-transparent via-red-600/50 to-transparent"></div>
+          {/* Center: Current Roster */}
+          <div className="lg:col-span-4 space-y-8">
+            <section className="glass rounded-[2.5rem] p-10 border border-white/5 min-h-[800px] relative">
+              <div className="absolute top-0 left-1/2 -translate-x-1/2 w-1/2 h-1 bg-gradient-to-r from-transparent via-red-600/50 to-transparent"></div>
             
-            <div className="flex justify-between items-end mb-12">
-              <div>
-                <h2 className="text-3xl font-display font-black italic uppercase tracking-tighter flex items-center gap-4">
-                  <ClipboardList className="w-8 h-8 text-red-600" /> NAHLÁSENÍ
-                </h2>
-                <p className="text-[10px] font-mono uppercase tracking-[0.3em] opacity-30 mt-2">Current Game Roster</p>
-              </div>
-              <div className="bg-white/5 px-5 py-2 rounded-2xl border border-white/10">
-                <span className="text-xl font-display font-bold">{gamePlayers.length}</span>
-                <span className="text-white/20 font-bold ml-1">/ 22</span>
+              <div className="flex justify-between items-end mb-12">
+                <div>
+                  <h2 className="text-3xl font-display font-black italic uppercase tracking-tighter flex items-center gap-4">
+                    <ClipboardList className="w-8 h-8 text-red-600" /> NAHLÁSENÍ
+                  </h2>
+                  <p className="text-[10px] font-mono uppercase tracking-[0.3em] opacity-30 mt-2">Current Game Roster</p>
+                </div>
+                <div className="bg-white/5 px-5 py-2 rounded-2xl border border-white/10">
+                  <span className="text-xl font-display font-bold">{roster.length}</span>
+                  <span className="text-white/20 font-bold ml-1">/ {maxPlayers}</span>
+                </div>
               </div>
-            </div>
 
-            <div className="space-y-4">
-              <AnimatePresence mode="popLayout">
-                {gamePlayers.length === 0 && (
-                  <motion.div 
-                    initial={{ opacity: 0 }}
-                    animate={{ opacity: 1 }}
-                    className="py-32 text-center"
-                  >
-                    <div className="w-20 h-20 bg-white/5 rounded-full flex items-center justify-center mx-auto mb-6">
-                      <Users className="w-10 h-10 text-white/10" />
-                    </div>
-                    <p className="text-[10px] font-mono uppercase tracking-[0.4em] opacity-20">Waiting for signups...</p>
-                  </motion.div>
-                )}
-                {gamePlayers.map(player => (
-                  <motion.div 
-                    layout
-                    initial={{ opacity: 0, scale: 0.95 }}
-                    animate={{ opacity: 1, scale: 1 }}
-                    exit={{ opacity: 0, scale: 0.9 }}
-                    key={player.id}
-                    onClick={() => toggleTeam(player)}
-                    className={`group cursor-pointer flex items-center justify-between p-5 rounded-3xl border transition-all duration-500 ${
-                      player.team === 'red' ? 'bg-red-600/10 border-red-600/30' : 
-                      player.team === 'blue' ? 'bg-blue-600/10 border-blue-600/30' : 
-                      'bg-white/3 border-white/5 hover:border-white/20'
-                    }`}
+              {isOrganizer && (
+                <form onSubmit={signUpGuest} className="flex gap-2 mb-8">
+                  <input 
+                    type="text"
+                    value={guestName}
+                    onChange={e => setGuestName(e.target.value)}
+                    placeholder="Hosť (bez záznamu v databáze)"
+                    className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-2xl px-5 py-3 text-sm font-bold focus:outline-none focus:border-red-600/50 transition-all placeholder:opacity-20"
+                  />
+                  <select 
+                    value={guestPosition}
+                    onChange={e => setGuestPosition(e.target.value as Position)}
+                    className="bg-white/5 border border-white/10 rounded-2xl px-3 text-xs font-bold focus:outline-none [color-scheme:dark]"
                   >
-                    <div className="flex items-center gap-5">
-                      <div className={`w-12 h-12 rounded-2xl flex items-center justify-center transition-all duration-500 ${
-                        player.team === 'red' ? 'bg-red-600 text-white shadow-lg shadow-red-600/40' : 
-                        player.team === 'blue' ? 'bg-blue-600 text-white shadow-lg shadow-blue-600/40' : 
-                        'bg-white/5 text-white/30 group-hover:bg-white/10'
-                      }`}>
-                        {POSITION_ICONS[player.position]}
-                      </div>
-                      <div>
-                        <p className="font-bold text-base uppercase tracking-tight">{player.name}</p>
-                        <p className="text-[10px] font-mono uppercase opacity-30 tracking-widest mt-0.5">{POSITION_LABELS[player.position]}</p>
-                      </div>
-                    </div>
-                    <div className="flex items-center gap-4">
-                      <div className={`text-[10px] font-mono px-3 py-1.5 rounded-xl uppercase tracking-widest font-bold transition-all ${
-                        player.team === 'red' ? 'bg-red-600 text-white' : 
-                        player.team === 'blue' ? 'bg-blue-600 text-white' : 
-                        'opacity-0 group-hover:opacity-100 bg-white/10 text-white/40'
-                      }`}>
-                        {player.team ? `${player.team === 'red' ? 'ČERVENÝ' : 'MODRÝ'}` : 'ZMENIŤ'}
+                    {(['forward', 'defense', 'goalie'] as Position[]).map(pos => (
+                      <option key={pos} value={pos}>{POSITION_LABELS[pos]}</option>
+                    ))}
+                  </select>
+                  <button className="p-3 rounded-2xl bg-white/10 hover:bg-white/20 transition-all" title="Nahlásiť hosťa">
+                    <Plus className="w-5 h-5" />
+                  </button>
+                </form>
+              )}
+
+              <div className="space-y-4">
+                <AnimatePresence mode="popLayout">
+                  {roster.length === 0 && (
+                    <motion.div 
+                      initial={{ opacity: 0 }}
+                      animate={{ opacity: 1 }}
+                      className="py-32 text-center"
+                    >
+                      <div className="w-20 h-20 bg-white/5 rounded-full flex items-center justify-center mx-auto mb-6">
+                        <Users className="w-10 h-10 text-white/10" />
                       </div>
-                      <button 
-                        onClick={(e) => { e.stopPropagation(); removeSignUp(player.id); }}
-                        className="p-2.5 text-white/10 hover:text-red-600 transition-colors"
+                      <p className="text-[10px] font-mono uppercase tracking-[0.4em] opacity-20">Waiting for signups...</p>
+                    </motion.div>
+                  )}
+                  {roster.map(player => {
+                    const team = game ? findTeam(game.format, player.team) : null;
+                    const colors = team ? TEAM_COLOR_CLASSES[team.color] : null;
+                    return (
+                      <motion.div 
+                        layout
+                        initial={{ opacity: 0, scale: 0.95 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        exit={{ opacity: 0, scale: 0.9 }}
+                        key={player.id}
+                        draggable={isOrganizer}
+                        onDragStart={(e: React.DragEvent) => e.dataTransfer.setData('text/plain', String(player.id))}
+                        onClick={() => isOrganizer && toggleTeam(player)}
+                        className={`group cursor-pointer flex items-center justify-between p-5 rounded-3xl border transition-all duration-500 ${
+                          colors ? colors.soft : 'bg-white/3 border-white/5 hover:border-white/20'
+                        }`}
                       >
-                        <X className="w-5 h-5" />
-                      </button>
-                    </div>
-                  </motion.div>
-                ))}
-              </AnimatePresence>
-            </div>
-          </section>
-        </div>
-
-        {/* Right: Teams Visualization */}
-        <div className="lg:col-span-5 space-y-10">
-          <section className="glass rounded-[3rem] p-12 border border-white/5 relative overflow-hidden">
-            <div className="absolute -top-24 -right-24 w-64 h-64 bg-blue-600/5 blur-[100px] rounded-full"></div>
-            
-            <div className="flex justify-between items-center mb-16">
-              <div>
-                <h2 className="text-3xl font-display font-black italic uppercase tracking-tighter flex items-center gap-4">
-                  <LayoutGrid className="w-8 h-8 text-blue-600" /> TÍMY
-                </h2>
-                <p className="text-[10px] font-mono uppercase tracking-[0.3em] opacity-30 mt-2">Generated Team Layout</p>
+                        <div className="flex items-center gap-5">
+                          <div className={`w-12 h-12 rounded-2xl flex items-center justify-center transition-all duration-500 ${
+                            colors ? `${colors.solid} shadow-lg` : 'bg-white/5 text-white/30 group-hover:bg-white/10'
+                          }`}>
+                            {POSITION_ICONS[player.position]}
+                          </div>
+                          <div>
+                            <p className="font-bold text-base uppercase tracking-tight">{player.name}</p>
+                            <p className="text-[10px] font-mono uppercase opacity-30 tracking-widest mt-0.5">{POSITION_LABELS[player.position]}{player.played_position && ` → ${POSITION_LABELS[player.played_position]}`}{player.player_id === null && ' · Hosť'}</p>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-4">
+                          <div className={`text-[10px] font-mono px-3 py-1.5 rounded-xl uppercase tracking-widest font-bold transition-all ${
+                            colors ? colors.solid : 'opacity-0 group-hover:opacity-100 bg-white/10 text-white/40'
+                          }`}>
+                            {team ? team.name : 'ZMENIŤ'}
+                          </div>
+                          {isOrganizer && player.team && (
+                            <button 
+                              onClick={(e) => { e.stopPropagation(); toggleLock(player); }}
+                              className={`p-2.5 transition-colors ${player.locked ? 'text-white' : 'text-white/10 hover:text-white/60'}`}
+                              title={player.locked ? 'Uvoľniť pre žrebovanie' : 'Zamknúť v tíme'}
+                            >
+                              {player.locked ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+                            </button>
+                          )}
+                          {isOrganizer && (
+                            <button 
+                              onClick={(e) => { e.stopPropagation(); removeSignUp(player.id); }}
+                              className="p-2.5 text-white/10 hover:text-red-600 transition-colors"
+                            >
+                              <X className="w-5 h-5" />
+                            </button>
+                          )}
+                        </div>
+                      </motion.div>
+                    );
+                  })}
+                </AnimatePresence>
               </div>
-              <button 
-                onClick={copyTeams}
-                disabled={gamePlayers.every(p => p.team === null)}
-                className="flex items-center gap-3 text-[11px] font-black uppercase tracking-[0.2em] bg-white text-black px-6 py-3 rounded-full transition-all hover:scale-105 active:scale-95 disabled:opacity-20 shadow-2xl shadow-white/10"
-              >
-                {copied ? <CheckCircle2 className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
-                {copied ? 'SKOPÍROVANÉ' : 'WHATSAPP'}
-              </button>
-            </div>
 
-            <div className="grid grid-cols-1 gap-12">
-              {/* Red Team */}
-              <motion.div 
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                className="relative group"
-              >
-                <div className="absolute -inset-2 bg-red-600/20 rounded-[3rem] blur-3xl opacity-0 group-hover:opacity-100 transition duration-1000"></div>
-                <div className="relative bg-[#0C0C0E] border border-red-600/20 rounded-[3rem] overflow-hidden shadow-2xl">
-                  <div className="bg-gradient-to-r from-red-600 to-red-800 px-10 py-6 flex justify-between items-center">
-                    <div className="flex items-center gap-4">
-                      <div className="w-10 h-10 bg-white/20 rounded-full flex items-center justify-center backdrop-blur-md">
-                        <Shield className="w-5 h-5 text-white" />
+              {waitlist.length > 0 && (
+                <div className="mt-12">
+                  <h3 className="text-[10px] font-mono uppercase tracking-[0.3em] mb-5 opacity-40 flex items-center gap-3">
+                    <Hourglass className="w-4 h-4" /> Čakacia listina
+                  </h3>
+                  <div className="space-y-3">
+                    {waitlist.map(player => (
+                      <div key={player.id} className="flex items-center justify-between px-5 py-4 rounded-3xl border border-dashed border-white/10 bg-white/2">
+                        <div className="flex items-center gap-4">
+                          {/* No number while the waitlist moves up by reliability */}
+                          {!group?.waitlist_by_reliability && (
+                            <span className="font-mono text-xs font-bold text-yellow-500 w-6">
+                              #{waitlist.filter(p => p.position === player.position).indexOf(player) + 1}
+                            </span>
+                          )}
+                          <div className="text-white/30">{POSITION_ICONS[player.position]}</div>
+                          <div>
+                            <p className="font-bold text-sm uppercase tracking-tight">{player.name}</p>
+                            <p className="text-[10px] font-mono uppercase opacity-30 tracking-widest mt-0.5">{POSITION_LABELS[player.position]}</p>
+                          </div>
+                        </div>
+                        {isOrganizer && (
+                          <button 
+                            onClick={() => removeSignUp(player.id)}
+                            className="p-2.5 text-white/10 hover:text-red-600 transition-colors"
+                          >
+                            <X className="w-5 h-5" />
+                          </button>
+                        )}
                       </div>
-                      <h3 className="font-display font-black uppercase italic tracking-[0.15em] text-lg">ČERVENÝ TÍM</h3>
-                    </div>
-                    <div className="flex items-center gap-3 bg-black/20 px-4 py-1.5 rounded-full backdrop-blur-md">
-                      <Users className="w-4 h-4 opacity-70" />
-                      <span className="font-mono text-sm font-bold">{redTeam.length}</span>
-                    </div>
-                  </div>
-                  <div className="p-10 grid grid-cols-1 md:grid-cols-3 gap-12">
-                    <TeamList title="BRANKÁR" players={redTeam.filter(p => p.position === 'goalie')} color="red" />
-                    <TeamList title="OBRANA" players={redTeam.filter(p => p.position === 'defense')} color="red" />
-                    <TeamList title="ÚTOK" players={redTeam.filter(p => p.position === 'forward')} color="red" />
+                    ))}
                   </div>
-                  <div className="absolute bottom-0 left-0 right-0 h-1 bg-gradient-to-r from-transparent via-red-600 to-transparent opacity-20"></div>
                 </div>
-              </motion.div>
-
-              {/* Blue Team */}
-              <motion.div 
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: 0.2 }}
-                className="relative group"
-              >
-                <div className="absolute -inset-2 bg-blue-600/20 rounded-[3rem] blur-3xl opacity-0 group-hover:opacity-100 transition duration-1000"></div>
-                <div className="relative bg-[#0C0C0E] border border-blue-600/20 rounded-[3rem] overflow-hidden shadow-2xl">
-                  <div className="bg-gradient-to-r from-blue-600 to-blue-800 px-10 py-6 flex justify-between items-center">
-                    <div className="flex items-center gap-4">
-                      <div className="w-10 h-10 bg-white/20 rounded-full flex items-center justify-center backdrop-blur-md">
-                        <Shield className="w-5 h-5 text-white" />
+              )}
+            </section>
+          </div>
+
+          {/* Right: Teams Visualization */}
+          <div className="lg:col-span-5 space-y-10">
+            {game && (game.clock || (isOrganizer && teams.length > 0 && teams.every(team => teamPlayers(team.id).length > 0))) && (
+              <LiveGame game={game} goals={goals} players={roster} canEdit={isOrganizer} />
+            )}
+            <section className="glass rounded-[3rem] p-12 border border-white/5 relative overflow-hidden">
+              <div className="absolute -top-24 -right-24 w-64 h-64 bg-blue-600/5 blur-[100px] rounded-full"></div>
+            
+              <div className="flex justify-between items-center mb-16">
+                <div>
+                  <h2 className="text-3xl font-display font-black italic uppercase tracking-tighter flex items-center gap-4">
+                    <LayoutGrid className="w-8 h-8 text-blue-600" /> TÍMY
+                  </h2>
+                  <p className="text-[10px] font-mono uppercase tracking-[0.3em] opacity-30 mt-2">Generated Team Layout</p>
+                  {balance && (
+                    <p className="text-[10px] font-mono uppercase tracking-[0.2em] mt-3 flex items-center gap-2">
+                      <Scale className="w-3.5 h-3.5 opacity-40" />
+                      <span className="opacity-40">Rozdiel sily</span>
+                      <span className={balance.difference <= 50 ? 'text-green-500 font-bold' : 'text-yellow-500 font-bold'}>
+                        {Math.round(balance.difference)}
+                      </span>
+                      <span className="opacity-20">({teams.map(team => Math.round(balance.totals[team.id] ?? 0)).join(' : ')})</span>
+                    </p>
+                  )}
+                  {freshness !== null && (
+                    <p className="text-[10px] font-mono uppercase tracking-[0.2em] mt-2 flex items-center gap-2" title="Podiel spoluhráčov, ktorí spolu nehrali v posledných zápasoch">
+                      <Sparkles className="w-3.5 h-3.5 opacity-40" />
+                      <span className="opacity-40">Čerstvosť</span>
+                      <span className={freshness >= 0.7 ? 'text-green-500 font-bold' : 'text-yellow-500 font-bold'}>
+                        {Math.round(freshness * 100)} %
+                      </span>
+                    </p>
+                  )}
+                  {unmetRules.map(rule => (
+                    <p key={rule.id} className="text-[10px] font-mono uppercase tracking-[0.2em] mt-2 flex items-center gap-2 text-yellow-500">
+                      <Link2 className="w-3.5 h-3.5 opacity-60" />
+                      <span>Nesplnené: {CONSTRAINT_LABELS[rule.kind]} {nameOf(rule.player_a)} + {nameOf(rule.player_b)}</span>
+                    </p>
+                  ))}
+                </div>
+                <div className="flex items-center gap-3">
+                  {isOrganizer && (
+                    <button 
+                      onClick={generateLines}
+                      disabled={gamePlayers.every(p => p.team === null)}
+                      className="p-3 rounded-full bg-white/10 hover:bg-white/20 transition-all disabled:opacity-20"
+                      title="Zostaviť formácie nanovo"
+                    >
+                      <Rows3 className="w-4 h-4" />
+                    </button>
+                  )}
+                  {game && gamePlayers.some(p => p.team !== null) && (
+                    <>
+                      <a
+                        href={apiUrl(`/api/games/${game.id}/card.png`)}
+                        download
+                        className="p-3 rounded-full bg-white/10 hover:bg-white/20 transition-all"
+                        title="Stiahnuť obrázok tímov"
+                      >
+                        <ImageDown className="w-4 h-4" />
+                      </a>
+                      <a
+                        href={apiUrl(`/api/games/${game.id}/lineup.pdf`)}
+                        download
+                        className="p-3 rounded-full bg-white/10 hover:bg-white/20 transition-all"
+                        title="Stiahnuť zostavu na tlač (A4)"
+                      >
+                        <Printer className="w-4 h-4" />
+                      </a>
+                    </>
+                  )}
+                  <button 
+                    onClick={copyTeams}
+                    disabled={gamePlayers.every(p => p.team === null)}
+                    className="flex items-center gap-3 text-[11px] font-black uppercase tracking-[0.2em] bg-white text-black px-6 py-3 rounded-full transition-all hover:scale-105 active:scale-95 disabled:opacity-20 shadow-2xl shadow-white/10"
+                  >
+                    {copied ? <CheckCircle2 className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                    {copied ? 'SKOPÍROVANÉ' : 'WHATSAPP'}
+                  </button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 gap-12">
+                {teams.map((team, index) => {
+                  const colors = TEAM_COLOR_CLASSES[team.color];
+                  const players = teamPlayers(team.id);
+                  return (
+                    <motion.div 
+                      key={team.id}
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ delay: index * 0.2 }}
+                      className="relative group"
+                    >
+                      <div className={`absolute -inset-2 ${colors.glow} rounded-[3rem] blur-3xl opacity-0 group-hover:opacity-100 transition duration-1000`}></div>
+                      <div 
+                        onDragOver={(e: React.DragEvent) => isOrganizer && e.preventDefault()}
+                        onDrop={dropOnTeam(team.id)}
+                        className={`relative bg-[#0C0C0E] border ${colors.border} rounded-[3rem] overflow-hidden shadow-2xl`}
+                      >
+                        <div className={`bg-gradient-to-r ${colors.gradient} px-10 py-6 flex justify-between items-center`}>
+                          <div className="flex items-center gap-4">
+                            <div className="w-10 h-10 bg-white/20 rounded-full flex items-center justify-center backdrop-blur-md">
+                              <Shield className="w-5 h-5 text-white" />
+                            </div>
+                            <h3 className="font-display font-black uppercase italic tracking-[0.15em] text-lg">{team.name} TÍM</h3>
+                          </div>
+                          <div className="flex items-center gap-3 bg-black/20 px-4 py-1.5 rounded-full backdrop-blur-md">
+                            <Users className="w-4 h-4 opacity-70" />
+                            <span className="font-mono text-sm font-bold">{players.length}</span>
+                          </div>
+                        </div>
+                        <div className="p-10 grid grid-cols-1 md:grid-cols-3 gap-12">
+                          {TEAM_POSITIONS.filter(pos => game!.format.slots[pos] > 0).map(pos => (
+                            <React.Fragment key={pos}>
+                              <TeamList title={TEAM_LIST_TITLES[pos]} players={players.filter(p => playedPosition(p) === pos)} dot={colors.dot} draggable={isOrganizer} />
+                            </React.Fragment>
+                          ))}
+                        </div>
+                        <TeamLines players={players} format={game!.format} dot={colors.dot} editable={isOrganizer} onMove={moveToLine} />
+                        <div className={`absolute bottom-0 left-0 right-0 h-1 bg-gradient-to-r from-transparent ${colors.line} to-transparent opacity-20`}></div>
                       </div>
-                      <h3 className="font-display font-black uppercase italic tracking-[0.15em] text-lg">MODRÝ TÍM</h3>
-                    </div>
-                    <div className="flex items-center gap-3 bg-black/20 px-4 py-1.5 rounded-full backdrop-blur-md">
-                      <Users className="w-4 h-4 opacity-70" />
-                      <span className="font-mono text-sm font-bold">{blueTeam.length}</span>
-                    </div>
+                    </motion.div>
+                  );
+                })}
+
+                {unassigned.length > 0 && (
+                  <div className="p-10 border border-dashed border-white/10 rounded-[2.5rem] text-center bg-white/2">
+                    <p className="text-[11px] font-mono uppercase opacity-30 tracking-[0.3em]">
+                      {unassigned.length} hráčov čaká na rozdelenie
+                    </p>
                   </div>
-                  <div className="p-10 grid grid-cols-1 md:grid-cols-3 gap-12">
-                    <TeamList title="BRANKÁR" players={blueTeam.filter(p => p.position === 'goalie')} color="blue" />
-                    <TeamList title="OBRANA" players={blueTeam.filter(p => p.position === 'defense')} color="blue" />
-                    <TeamList title="ÚTOK" players={blueTeam.filter(p => p.position === 'forward')} color="blue" />
+                )}
+
+                {isOrganizer && game && teams.every(team => teamPlayers(team.id).length > 0) && (
+                  <div className="flex flex-wrap items-center justify-between gap-6 p-8 border border-white/5 rounded-[2.5rem] bg-white/2">
+                    <div>
+                      <p className="text-[10px] font-mono uppercase tracking-[0.3em] opacity-40">Konečný výsledok</p>
+                      <p className="text-[9px] font-mono uppercase tracking-[0.2em] opacity-20 mt-1">Prepočíta hodnotenie hráčov</p>
+                    </div>
+                    <ResultForm game={game} onSaved={setGame} />
                   </div>
-                  <div className="absolute bottom-0 left-0 right-0 h-1 bg-gradient-to-r from-transparent via-blue-600 to-transparent opacity-20"></div>
-                </div>
-              </motion.div>
+                )}
 
-              {unassigned.length > 0 && (
-                <div className="p-10 border border-dashed border-white/10 rounded-[2.5rem] text-center bg-white/2">
-                  <p className="text-[11px] font-mono uppercase opacity-30 tracking-[0.3em]">
-                    {unassigned.length} hráčov čaká na rozdelenie
-                  </p>
-                </div>
-              )}
-            </div>
-          </section>
-        </div>
-      </main>
+                {game && <DrawLog gameId={game.id} latest={balance} />}
+              </div>
+            </section>
+          </div>
+        </main>
+      )}
 
       <footer className="p-20 text-center border-t border-white/5 mt-20">
         <div className="flex justify-center gap-8 mb-6 opacity-20">
@@ -579,7 +1040,18 @@ export default function App() {
   );
 }
 
-function TeamList({ title, players, color }: { title: string, players: GamePlayer[], color: 'red' | 'blue' }) {
+const TEAM_POSITIONS: Position[] = ['goalie', 'defense', 'forward'];
+
+// Where the player lines up: the position the draw filled with them, or their own
+const playedPosition = (player: GamePlayer) => player.played_position ?? player.position;
+
+const TEAM_LIST_TITLES: Record<Position, string> = {
+  goalie: 'BRANKÁR',
+  defense: 'OBRANA',
+  forward: 'ÚTOK'
+};
+
+function TeamList({ title, players, dot, draggable }: { title: string, players: GamePlayer[], dot: string, draggable: boolean }) {
   return (
     <div className="space-y-5">
       <p className="text-[10px] font-mono uppercase opacity-20 tracking-[0.3em] border-b border-white/5 pb-3">{title}</p>
@@ -588,9 +1060,20 @@ function TeamList({ title, players, color }: { title: string, players: GamePlaye
           <p className="text-[11px] italic opacity-10 font-mono">Empty</p>
         ) : (
           players.map(p => (
-            <div key={p.id} className="flex items-center gap-3 text-sm font-bold uppercase tracking-tight group/item">
-              <div className={`w-1.5 h-1.5 rounded-full ${color === 'red' ? 'bg-red-600 shadow-[0_0_8px_rgba(255,45,85,0.8)]' : 'bg-blue-600 shadow-[0_0_8px_rgba(0,122,255,0.8)]'}`}></div>
+            <div 
+              key={p.id}
+              draggable={draggable}
+              onDragStart={(e: React.DragEvent) => e.dataTransfer.setData('text/plain', String(p.id))}
+              className={`flex items-center gap-3 text-sm font-bold uppercase tracking-tight group/item ${draggable ? 'cursor-grab' : ''}`}
+            >
+              <div className={`w-1.5 h-1.5 rounded-full ${dot}`}></div>
               <span className="group-hover/item:translate-x-1 transition-transform duration-300">{p.name}</span>
+              {p.played_position && (
+                <span className="text-[9px] font-mono text-yellow-500 opacity-70" title="Hrá mimo svojej pozície">
+                  {POSITION_LABELS[p.position]}
+                </span>
+              )}
+              {p.locked && <Lock className="w-3 h-3 opacity-30" />}
             </div>
           ))
         )}
@@ -598,3 +1081,86 @@ function TeamList({ title, players, color }: { title: string, players: GamePlaye
     </div>
   );
 }
+
+// Players of one position by their line; index 0 is line 1, lines nobody is in stay empty
+const groupLines = (players: GamePlayer[]) => {
+  const lines: GamePlayer[][] = [];
+  for (const player of players) {
+    if (player.line === null) continue;
+    for (let i = lines.length; i < player.line; i++) lines.push([]);
+    lines[player.line - 1].push(player);
+  }
+  return lines;
+};
+
+const LINE_TITLES: Record<Position, string> = {
+  goalie: 'BRANKÁRI',
+  defense: 'OBRANNÉ PÁRY',
+  forward: 'ÚTOČNÉ FORMÁCIE'
+};
+
+// Defense pairs and forward lines of one team; the organizer drags players between lines
+function TeamLines({ players, format, dot, editable, onMove }: { players: GamePlayer[], format: GameFormat, dot: string, editable: boolean, onMove: (player: GamePlayer, line: number | null) => void }) {
+  const positions = (Object.keys(LINE_SIZES) as Position[]).filter(pos => format.slots[pos] > 0);
+
+  // Players from another team fall through to the team's own drop target
+  const drop = (position: Position, line: number | null) => (e: React.DragEvent) => {
+    const player = players.find(p => p.id === Number(e.dataTransfer.getData('text/plain')));
+    if (!player) return;
+    e.preventDefault();
+    e.stopPropagation();
+    if (playedPosition(player) === position && player.line !== line) onMove(player, line);
+  };
+
+  const names = (line: GamePlayer[]) => line.map((p, index) => (
+    <React.Fragment key={p.id}>
+      {index > 0 && <span className="opacity-20"> – </span>}
+      <span
+        draggable={editable}
+        onDragStart={(e: React.DragEvent) => e.dataTransfer.setData('text/plain', String(p.id))}
+        className={editable ? 'cursor-grab' : ''}
+      >
+        {p.name}
+      </span>
+    </React.Fragment>
+  ));
+
+  return (
+    <div className="px-10 pb-10 grid grid-cols-1 md:grid-cols-2 gap-12">
+      {positions.map(position => {
+        const inPosition = players.filter(p => playedPosition(p) === position);
+        const lines = groupLines(inPosition);
+        const count = Math.max(lines.length, Math.ceil(format.slots[position] / LINE_SIZES[position]!));
+        const outside = inPosition.filter(p => p.line === null);
+        const rowClass = 'flex items-center gap-3 text-xs font-bold uppercase tracking-tight px-3 py-2 rounded-xl border border-transparent';
+        return (
+          <div key={position} className="space-y-2">
+            <p className="text-[10px] font-mono uppercase opacity-20 tracking-[0.3em] border-b border-white/5 pb-3 mb-3">{LINE_TITLES[position]}</p>
+            {Array.from({ length: count }, (_, index) => (
+              <div
+                key={index}
+                onDragOver={(e: React.DragEvent) => editable && e.preventDefault()}
+                onDrop={drop(position, index + 1)}
+                className={`${rowClass} ${editable ? 'hover:border-white/10' : ''}`}
+              >
+                <div className={`w-1.5 h-1.5 rounded-full ${dot}`}></div>
+                <span className="font-mono text-[10px] opacity-30">{index + 1}.</span>
+                <span>{lines[index]?.length ? names(lines[index]) : <span className="italic opacity-10 font-mono">Empty</span>}</span>
+              </div>
+            ))}
+            {outside.length > 0 && (
+              <div
+                onDragOver={(e: React.DragEvent) => editable && e.preventDefault()}
+                onDrop={drop(position, null)}
+                className={`${rowClass} opacity-40`}
+              >
+                <span className="font-mono text-[10px]">Mimo formácií:</span>
+                <span>{names(outside)}</span>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+// Every group has its own pages under /g/<slug>/; the bare / belongs to the first group
+export const groupSlug = () => window.location.pathname.match(/^\/g\/([a-z0-9-]+)/)?.[1] ?? null;
+
+// Links of different groups must not overwrite each other
+const tokenKey = () => {
+  const slug = groupSlug();
+  return slug ? `hockey-token:${slug}` : 'hockey-token';
+};
+
+// Personal links look like /?token=...; the token is remembered so the link is only needed once
+export const storeTokenFromUrl = () => {
+  const url = new URL(window.location.href);
+  const token = url.searchParams.get('token');
+  if (!token) return;
+  localStorage.setItem(tokenKey(), token);
+  url.searchParams.delete('token');
+  window.history.replaceState(null, '', url);
+};
+
+// Server paths are written as /api/...; on a group page they go to that group's routes,
+// except the list of groups itself, which is the same everywhere
+export const apiUrl = (path: string) => {
+  const slug = groupSlug();
+  return slug && !path.startsWith('/api/groups') ? path.replace(/^\/api\//, `/api/groups/${slug}/`) : path;
+};
+
+// fetch that identifies the caller with their stored link token
+export const apiFetch = (input: string, init: RequestInit = {}) => {
+  const token = localStorage.getItem(tokenKey());
+  const headers = new Headers(init.headers);
+  if (token) headers.set('Authorization', `Bearer ${token}`);
+  return fetch(apiUrl(input), { ...init, headers });
+};
+
+export const groupPath = (slug: string) => `/g/${slug}/`;
+
+export const signupLink = (token: string) => {
+  const slug = groupSlug();
+  return `${window.location.origin}${slug ? groupPath(slug) : '/'}?token=${token}`;
+};
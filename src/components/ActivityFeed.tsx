@@ -0,0 +1,81 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Activity, Undo2 } from 'lucide-react';
+import { AuditActor, AuditEntry, Game, GamePlayer, Player } from '../types';
+import { apiFetch } from '../api';
+
+const ACTOR_LABELS: Record<AuditActor, string> = {
+  organizer: 'Organizátor',
+  player: 'Hráč',
+  viewer: 'Návšteva',
+  schedule: 'Rozvrh',
+};
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('sk-SK', { day: 'numeric', month: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Who changed what and when, newest first, with an undo for the latest change. The game,
+// signups and players are only watched to refresh the feed when something changes.
+export default function ActivityFeed({ game, signups, players }: { game: Game | null, signups: GamePlayer[], players: Player[] }) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [undoing, setUndoing] = useState(false);
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      const res = await apiFetch('/api/audit?limit=30');
+      setEntries(await res.json());
+    } catch (error) {
+      console.error('Error fetching activity:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries, game, signups, players]);
+
+  const undo = async () => {
+    const latest = entries.find(entry => entry.action !== 'undo' && !entry.undone);
+    if (latest && !confirm(`Vrátiť zmenu „${latest.summary}“?`)) return;
+    setUndoing(true);
+    try {
+      const res = await apiFetch('/api/audit/undo', { method: 'POST' });
+      if (!res.ok) {
+        const error = await res.json();
+        alert(error.error);
+      }
+      fetchEntries();
+    } catch (error) {
+      console.error('Error undoing change:', error);
+    } finally {
+      setUndoing(false);
+    }
+  };
+
+  return (
+    <section className="glass rounded-[2.5rem] p-8 border border-white/5">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-[10px] font-mono uppercase tracking-[0.3em] opacity-40 flex items-center gap-3">
+          <Activity className="w-4 h-4" /> Aktivita
+        </h2>
+        <button
+          onClick={undo}
+          disabled={undoing || !entries.some(entry => entry.action !== 'undo' && !entry.undone)}
+          className="flex items-center gap-2 px-3 py-2 rounded-xl bg-white/5 hover:bg-white/20 text-[9px] font-mono uppercase tracking-widest transition-all disabled:opacity-20"
+          title="Vrátiť poslednú zmenu"
+        >
+          <Undo2 className="w-3.5 h-3.5" /> Späť
+        </button>
+      </div>
+      <div className="space-y-2 max-h-64 overflow-y-auto pr-2 custom-scrollbar">
+        {entries.length === 0 && <p className="text-[11px] italic opacity-10 font-mono">Empty</p>}
+        {entries.map(entry => (
+          <div key={entry.id} className={`text-xs ${entry.undone ? 'line-through opacity-30' : ''}`}>
+            <p className={`font-bold ${entry.action === 'undo' ? 'text-yellow-500' : ''}`}>{entry.summary}</p>
+            <p className="text-[9px] font-mono uppercase tracking-widest opacity-30 mt-0.5">
+              {formatTime(entry.created_at)} · {entry.actor_name ?? ACTOR_LABELS[entry.actor_role]}
+            </p>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
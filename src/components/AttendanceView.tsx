@@ -0,0 +1,90 @@
+import React, { useState, useEffect } from 'react';
+import { UserCheck } from 'lucide-react';
+import { AttendanceReport } from '../types';
+import { apiFetch } from '../api';
+
+const reliabilityClass = (reliability: number) =>
+  reliability >= 0.9 ? 'text-green-500' : reliability >= 0.7 ? 'text-yellow-500' : 'text-red-500';
+
+// Attendance, cancellations and reliability of every player; the organizer's view only
+export default function AttendanceView() {
+  const [report, setReport] = useState<AttendanceReport | null>(null);
+
+  useEffect(() => {
+    apiFetch('/api/attendance')
+      .then(res => res.json())
+      .then(setReport)
+      .catch(error => console.error('Error fetching attendance:', error));
+  }, []);
+
+  const toggleWaitlistPriority = async () => {
+    try {
+      const res = await apiFetch('/api/attendance/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ waitlistByReliability: !report!.waitlistByReliability }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        alert(error.error);
+        return;
+      }
+      const { waitlistByReliability } = await res.json();
+      setReport(prev => prev && { ...prev, waitlistByReliability });
+    } catch (error) {
+      console.error('Error saving attendance settings:', error);
+    }
+  };
+
+  if (!report) return null;
+
+  return (
+    <section className="glass rounded-[2.5rem] p-10 border border-white/5">
+      <div className="flex flex-wrap items-end justify-between gap-6 mb-12">
+        <div>
+          <h2 className="text-3xl font-display font-black italic uppercase tracking-tighter flex items-center gap-4">
+            <UserCheck className="w-8 h-8 text-red-600" /> DOCHÁDZKA
+          </h2>
+          <p className="text-[10px] font-mono uppercase tracking-[0.3em] opacity-30 mt-2">Attendance & Reliability</p>
+        </div>
+        <label className="flex items-center gap-2 text-[10px] font-mono uppercase tracking-widest opacity-60" title="Pri uvoľnení miesta postúpi z náhradníkov najspoľahlivejší hráč">
+          <input type="checkbox" checked={report.waitlistByReliability} onChange={toggleWaitlistPriority} className="accent-red-600" />
+          Náhradníci podľa spoľahlivosti
+        </label>
+      </div>
+
+      {report.players.length === 0 ? (
+        <p className="py-20 text-center text-[10px] font-mono uppercase tracking-[0.4em] opacity-20">Zatiaľ žiadna dochádzka</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-[9px] font-mono uppercase tracking-[0.2em] opacity-40 text-right">
+                <th className="text-left py-3 font-normal">Hráč</th>
+                <th className="font-normal" title="Odohrané zápasy">Z</th>
+                <th className="font-normal" title="Neprišiel">Neprišiel</th>
+                <th className="font-normal" title="Odhlásenia">Odhl.</th>
+                <th className="font-normal" title="Odhlásenia menej ako 24 h pred zápasom">Neskoro</th>
+                <th className="font-normal" title="Podiel dodržaných účastí">Spoľahlivosť</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.players.map(player => (
+                <tr key={player.player_id} className="border-t border-white/5 text-right font-mono">
+                  <td className="text-left py-3 font-sans font-bold uppercase tracking-tight">{player.name}</td>
+                  <td>{player.games}</td>
+                  <td className={player.no_shows > 0 ? 'text-red-500' : 'opacity-30'}>{player.no_shows}</td>
+                  <td className="opacity-50">{player.cancellations}</td>
+                  <td className={player.late_cancellations > 0 ? 'text-yellow-500' : 'opacity-30'}>{player.late_cancellations}</td>
+                  <td className={`font-bold ${player.reliability === null ? 'opacity-30' : reliabilityClass(player.reliability)}`}>
+                    {player.reliability === null ? '–' : `${Math.round(player.reliability * 100)} %`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { MessageSquareText } from 'lucide-react';
+import { ChatSignup, Player } from '../types';
+import { apiFetch } from '../api';
+
+// Paste box for the group chat: "+1" replies are matched to players and signed up in one go
+export default function ChatImport({ players }: { players: Player[] }) {
+  const [text, setText] = useState('');
+  const [replies, setReplies] = useState<ChatSignup[] | null>(null);
+  // Player picked for each author; "" leaves the author out
+  const [picks, setPicks] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+
+  const post = async (url: string, body: object) => {
+    setBusy(true);
+    try {
+      const res = await apiFetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error);
+        return null;
+      }
+      return data;
+    } catch (error) {
+      console.error('Error importing chat:', error);
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const read = async () => {
+    const data: ChatSignup[] | null = await post('/api/current-game/chat', { text });
+    if (!data) return;
+    setReplies(data);
+    setPicks(Object.fromEntries(data.map(reply => [
+      reply.author,
+      reply.intent === 'in' && reply.player_id !== null && !reply.signed_up ? String(reply.player_id) : '',
+    ])));
+  };
+
+  const signUpAll = async () => {
+    const playerIds = Object.values(picks).filter(Boolean).map(Number);
+    if (await post('/api/current-game/signup/bulk', { playerIds })) {
+      setText('');
+      setReplies(null);
+      setPicks({});
+    }
+  };
+
+  const picked = Object.values(picks).filter(Boolean).length;
+  const fieldClass = 'bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs font-bold focus:outline-none focus:border-red-600/50 [color-scheme:dark]';
+  const buttonClass = 'flex-1 bg-white/10 hover:bg-white/20 py-3 rounded-2xl text-[10px] font-black uppercase tracking-[0.2em] transition-all disabled:opacity-20';
+
+  return (
+    <section className="glass rounded-[2.5rem] p-8 border border-white/5">
+      <h2 className="text-[10px] font-mono uppercase tracking-[0.3em] mb-6 opacity-40 flex items-center gap-3">
+        <MessageSquareText className="w-4 h-4" /> Zo skupiny
+      </h2>
+      <textarea
+        value={text}
+        onChange={e => { setText(e.target.value); setReplies(null); }}
+        placeholder={'[19.10.26, 18:05:12] Peter Novák: +1'}
+        rows={4}
+        className="w-full bg-white/5 border border-white/10 rounded-2xl p-4 text-xs font-mono focus:outline-none focus:border-red-600/50 transition-all placeholder:opacity-20 custom-scrollbar"
+      />
+
+      {replies && (
+        <div className="mt-4 space-y-2 max-h-72 overflow-y-auto pr-2 custom-scrollbar">
+          {replies.length === 0 && <p className="text-[10px] font-mono uppercase tracking-widest opacity-20">Žiadne +1 v texte</p>}
+          {replies.map(reply => (
+            <div key={reply.author} className="flex items-center gap-2 text-xs">
+              <span className={`font-mono font-bold w-6 ${reply.intent === 'in' ? 'text-green-500' : 'text-red-500'}`}>{reply.intent === 'in' ? '+1' : '−1'}</span>
+              <span className="flex-1 truncate opacity-60" title={reply.author}>{reply.author}</span>
+              {reply.signed_up ? (
+                <span className="text-[9px] font-mono uppercase tracking-widest opacity-30">Nahlásený</span>
+              ) : (
+                <select
+                  value={picks[reply.author] ?? ''}
+                  onChange={e => setPicks({ ...picks, [reply.author]: e.target.value })}
+                  className={`${fieldClass} w-36 ${reply.player_id === null && reply.intent === 'in' ? 'border-yellow-500/50' : ''}`}
+                >
+                  <option value="">Vynechať</option>
+                  {reply.matches.map(match => (
+                    <option key={match.player_id} value={match.player_id}>{match.name} ({Math.round(match.score * 100)} %)</option>
+                  ))}
+                  <optgroup label="Ostatní">
+                    {players.filter(p => p.active && !reply.matches.some(m => m.player_id === p.id)).map(p => (
+                      <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                  </optgroup>
+                </select>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2 mt-4">
+        <button onClick={read} disabled={busy || !text.trim()} className={buttonClass}>
+          Načítať
+        </button>
+        <button onClick={signUpAll} disabled={busy || picked === 0} className={buttonClass}>
+          Nahlásiť {picked > 0 ? picked : ''}
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,95 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link2, Plus, X } from 'lucide-react';
+import { ConstraintKind, Player, PlayerConstraint } from '../types';
+import { CONSTRAINT_LABELS } from '../positions';
+import { apiFetch } from '../api';
+
+// Keep-together / keep-apart rules of one player for the team draw
+export default function ConstraintEditor({ player, players }: { player: Player, players: Player[] }) {
+  const [constraints, setConstraints] = useState<PlayerConstraint[]>([]);
+  const [otherId, setOtherId] = useState('');
+  const [kind, setKind] = useState<ConstraintKind>('together');
+  const [hard, setHard] = useState(false);
+
+  const fetchConstraints = useCallback(async () => {
+    try {
+      const res = await apiFetch('/api/constraints');
+      const data: PlayerConstraint[] = await res.json();
+      setConstraints(data.filter(c => c.player_a === player.id || c.player_b === player.id));
+    } catch (error) {
+      console.error('Error fetching constraints:', error);
+    }
+  }, [player.id]);
+
+  useEffect(() => {
+    fetchConstraints();
+  }, [fetchConstraints]);
+
+  const request = async (url: string, init: RequestInit) => {
+    try {
+      const res = await apiFetch(url, init);
+      if (!res.ok) {
+        const error = await res.json();
+        alert(error.error);
+        return;
+      }
+      setOtherId('');
+      fetchConstraints();
+    } catch (error) {
+      console.error('Error updating constraints:', error);
+    }
+  };
+
+  const add = () => request('/api/constraints', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ playerA: player.id, playerB: Number(otherId), kind, hard }),
+  });
+
+  const remove = (id: number) => request(`/api/constraints/${id}`, { method: 'DELETE' });
+
+  const nameOf = (id: number) => players.find(p => p.id === id)?.name ?? '?';
+
+  const fieldClass = 'bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs font-bold focus:outline-none focus:border-red-600/50 [color-scheme:dark]';
+
+  return (
+    <div className="pt-4 mt-3 border-t border-white/5 space-y-3">
+      <p className="text-[9px] font-mono uppercase tracking-[0.2em] opacity-30 flex items-center gap-2">
+        <Link2 className="w-3.5 h-3.5" /> Pravidlá žrebovania
+      </p>
+      {constraints.map(c => (
+        <div key={c.id} className="flex items-center justify-between gap-2 text-xs">
+          <span>
+            <span className={c.kind !== 'apart' ? 'text-green-500 font-bold' : 'text-yellow-500 font-bold'}>{CONSTRAINT_LABELS[c.kind]}</span>
+            {' s '}
+            <span className="font-bold">{nameOf(c.player_a === player.id ? c.player_b : c.player_a)}</span>
+            <span className="opacity-30 font-mono text-[9px] uppercase tracking-widest ml-2">{c.hard ? 'povinné' : 'ak sa dá'}</span>
+          </span>
+          <button onClick={() => remove(c.id)} className="p-1 text-white/20 hover:text-red-600 transition-colors" title="Zrušiť pravidlo">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <select value={kind} onChange={e => setKind(e.target.value as ConstraintKind)} className={fieldClass}>
+          {(['together', 'linemates', 'apart'] as ConstraintKind[]).map(k => (
+            <option key={k} value={k}>{CONSTRAINT_LABELS[k]}</option>
+          ))}
+        </select>
+        <select value={otherId} onChange={e => setOtherId(e.target.value)} className={`${fieldClass} flex-1 min-w-0`}>
+          <option value="">s hráčom…</option>
+          {players.filter(p => p.id !== player.id && p.active).map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1.5 text-[9px] font-mono uppercase tracking-widest opacity-50" title="Žrebovanie ho nesmie porušiť">
+          <input type="checkbox" checked={hard} onChange={e => setHard(e.target.checked)} className="accent-red-600" />
+          Povinné
+        </label>
+        <button onClick={add} disabled={!otherId} className="p-2 rounded-xl bg-white/10 hover:bg-white/20 transition-all disabled:opacity-20" title="Pridať pravidlo">
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
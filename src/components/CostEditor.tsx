@@ -0,0 +1,76 @@
+import React, { useState, useEffect } from 'react';
+import { Wallet, Save } from 'lucide-react';
+import { CostSettings } from '../types';
+import { apiFetch } from '../api';
+
+// Organizer form for the default ice rent of new games and how much goalies pay of it
+export default function CostEditor() {
+  const [costs, setCosts] = useState<CostSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    apiFetch('/api/costs')
+      .then(res => res.json())
+      .then(setCosts)
+      .catch(error => console.error('Error fetching cost settings:', error));
+  }, []);
+
+  if (!costs) return null;
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const res = await apiFetch('/api/costs', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(costs),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error);
+        return;
+      }
+      setCosts(data);
+    } catch (error) {
+      console.error('Error saving cost settings:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const fieldClass = 'bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs font-bold focus:outline-none focus:border-red-600/50 [color-scheme:dark]';
+  const labelClass = 'text-[9px] font-mono uppercase tracking-[0.2em] opacity-40';
+
+  return (
+    <section className="glass rounded-[2.5rem] p-8 border border-white/5">
+      <h2 className="text-[10px] font-mono uppercase tracking-[0.3em] mb-6 opacity-40 flex items-center gap-3">
+        <Wallet className="w-4 h-4" /> Náklady
+      </h2>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="space-y-2">
+          <span className={labelClass}>Ľad (€)</span>
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={costs.iceCost / 100}
+            onChange={e => setCosts({ ...costs, iceCost: Math.round(Number(e.target.value) * 100) })}
+            className={`${fieldClass} w-full`}
+          />
+        </label>
+        <label className="space-y-2">
+          <span className={labelClass}>Zľava brankár (%)</span>
+          <input type="number" min={0} max={100} value={costs.goalieDiscount} onChange={e => setCosts({ ...costs, goalieDiscount: Number(e.target.value) })} className={`${fieldClass} w-full`} />
+        </label>
+      </div>
+      <p className="text-[9px] font-mono uppercase tracking-[0.2em] opacity-20 mt-3">Cena nových zápasov; 100 % brankári neplatia</p>
+      <button
+        onClick={save}
+        disabled={saving}
+        className="w-full mt-6 flex items-center justify-center gap-2 bg-white/10 hover:bg-white/20 py-3 rounded-2xl text-[10px] font-black uppercase tracking-[0.2em] transition-all disabled:opacity-20"
+      >
+        <Save className="w-4 h-4" /> Uložiť
+      </button>
+    </section>
+  );
+}
@@ -0,0 +1,96 @@
+import React, { useState, useEffect } from 'react';
+import { Dices, ChevronRight, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { DrawRecord, DrawTrigger } from '../types';
+import { TEAM_COLOR_CLASSES } from '../teams';
+import { apiFetch } from '../api';
+
+const TRIGGER_LABELS: Record<DrawTrigger, string> = {
+  organizer: 'Organizátor',
+  schedule: 'Automaticky',
+};
+
+// Public record of every draw made for a game; anyone can re-run a draw from its seed to check the teams.
+// The list is fetched when opened and again whenever latest changes, i.e. after a new draw.
+export default function DrawLog({ gameId, latest }: { gameId: number, latest?: unknown }) {
+  const [open, setOpen] = useState(false);
+  const [draws, setDraws] = useState<DrawRecord[]>([]);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [verified, setVerified] = useState<Record<number, boolean>>({});
+
+  useEffect(() => {
+    if (!open) return;
+    apiFetch(`/api/games/${gameId}/draws`)
+      .then(res => res.json())
+      .then(setDraws)
+      .catch(error => console.error('Error fetching draws:', error));
+  }, [open, gameId, latest]);
+
+  const verify = async (draw: DrawRecord) => {
+    try {
+      const res = await apiFetch(`/api/draws/${draw.id}/replay`);
+      const replay = await res.json();
+      if (!res.ok) {
+        alert(replay.error);
+        return;
+      }
+      setVerified(prev => ({ ...prev, [draw.id]: replay.identical }));
+    } catch (error) {
+      console.error('Error replaying draw:', error);
+    }
+  };
+
+  return (
+    <div className="border border-white/5 rounded-[2rem] bg-white/2">
+      <button onClick={() => setOpen(!open)} className="w-full flex items-center justify-between px-8 py-5">
+        <span className="text-[10px] font-mono uppercase tracking-[0.3em] opacity-40 flex items-center gap-3">
+          <Dices className="w-4 h-4" /> Záznam žrebovaní
+        </span>
+        <ChevronRight className={`w-4 h-4 opacity-30 transition-transform ${open ? 'rotate-90' : ''}`} />
+      </button>
+      {open && (
+        <div className="px-8 pb-6 space-y-3">
+          {draws.length === 0 && (
+            <p className="text-[10px] font-mono uppercase tracking-[0.3em] opacity-20">Zatiaľ žiadne žrebovanie</p>
+          )}
+          {draws.map(draw => (
+            <div key={draw.id} className="border-t border-white/5 pt-3">
+              <div className="flex items-center gap-4 text-[10px] font-mono uppercase tracking-widest">
+                <button onClick={() => setExpandedId(expandedId === draw.id ? null : draw.id)} className="flex-1 text-left">
+                  <span className="font-bold">{new Date(draw.created_at).toLocaleString('sk-SK')}</span>
+                  <span className="opacity-30 ml-3">{TRIGGER_LABELS[draw.triggered_by]}</span>
+                  <span className="opacity-30 ml-3">Seed {draw.seed}</span>
+                  <span className="opacity-30 ml-3">Rozdiel {Math.round(draw.balance.difference)}</span>
+                </button>
+                {draw.id in verified ? (
+                  verified[draw.id] ? (
+                    <span className="flex items-center gap-1 text-green-500 font-bold"><ShieldCheck className="w-3.5 h-3.5" /> Zhodné</span>
+                  ) : (
+                    <span className="flex items-center gap-1 text-red-500 font-bold"><ShieldAlert className="w-3.5 h-3.5" /> Odlišné</span>
+                  )
+                ) : (
+                  <button onClick={() => verify(draw)} className="px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20 font-bold transition-all" title="Zopakovať žrebovanie s rovnakým seedom">
+                    Overiť
+                  </button>
+                )}
+              </div>
+              {expandedId === draw.id && (
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mt-3">
+                  {draw.format.teams.map(team => (
+                    <div key={team.id}>
+                      <p className={`text-[9px] font-mono uppercase tracking-[0.2em] ${TEAM_COLOR_CLASSES[team.color].text}`}>{team.name}</p>
+                      {draw.teams.filter(item => item.team === team.id).map(item => (
+                        <p key={item.id} className="text-xs font-bold uppercase tracking-tight mt-1">
+                          {draw.candidates.find(c => c.id === item.id)?.name}
+                        </p>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
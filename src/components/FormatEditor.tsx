@@ -0,0 +1,117 @@
+import React, { useState, useEffect } from 'react';
+import { Save, Settings2 } from 'lucide-react';
+import { Game, GameFormat, Position, TeamColor } from '../types';
+import { POSITION_LABELS } from '../positions';
+import { TEAM_COLOR_CLASSES, TEAM_COLOR_LABELS, TEAM_PRESETS } from '../teams';
+import { apiFetch } from '../api';
+
+const MAX_TEAMS = 4;
+
+// Organizer form for the format of the open game: teams, slots per position and the signup cap
+export default function FormatEditor({ game, onSaved }: { game: Game, onSaved: (game: Game) => void }) {
+  const [format, setFormat] = useState<GameFormat>(game.format);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setFormat(game.format);
+  }, [game.id, game.format]);
+
+  const update = (changes: Partial<GameFormat>) => setFormat({ ...format, ...changes });
+
+  // Added teams come from the presets the format does not use yet
+  const setTeamCount = (count: number) => {
+    const unused = TEAM_PRESETS.filter(preset => !format.teams.some(team => team.id === preset.id));
+    update({ teams: [...format.teams, ...unused].slice(0, count) });
+  };
+
+  const updateTeam = (index: number, changes: { name?: string, color?: TeamColor }) =>
+    update({ teams: format.teams.map((team, i) => i === index ? { ...team, ...changes } : team) });
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const res = await apiFetch(`/api/games/${game.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ format }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error);
+        return;
+      }
+      onSaved(data);
+    } catch (error) {
+      console.error('Error saving format:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const fieldClass = 'bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs font-bold focus:outline-none focus:border-red-600/50 [color-scheme:dark]';
+  const labelClass = 'text-[9px] font-mono uppercase tracking-[0.2em] opacity-40';
+  const slotTotal = (Object.values(format.slots) as number[]).reduce((sum, slots) => sum + slots, 0) * format.teams.length;
+
+  return (
+    <section className="glass rounded-[2.5rem] p-8 border border-white/5">
+      <h2 className="text-[10px] font-mono uppercase tracking-[0.3em] mb-6 opacity-40 flex items-center gap-3">
+        <Settings2 className="w-4 h-4" /> Formát zápasu
+      </h2>
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <p className={labelClass}>Tímy</p>
+          <div className="grid grid-cols-3 gap-2">
+            {[2, 3, MAX_TEAMS].map(count => (
+              <button
+                key={count}
+                onClick={() => setTeamCount(count)}
+                className={`py-2 rounded-xl border text-xs font-bold transition-all ${format.teams.length === count ? 'bg-red-600 border-red-600' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+              >
+                {count}
+              </button>
+            ))}
+          </div>
+          {format.teams.map((team, index) => (
+            <div key={team.id} className="flex gap-2 items-center">
+              <div className={`w-2 h-2 rounded-full shrink-0 ${TEAM_COLOR_CLASSES[team.color].dot}`}></div>
+              <input value={team.name} onChange={e => updateTeam(index, { name: e.target.value })} className={`${fieldClass} flex-1 min-w-0`} />
+              <select value={team.color} onChange={e => updateTeam(index, { color: e.target.value as TeamColor })} className={fieldClass}>
+                {(Object.keys(TEAM_COLOR_LABELS) as TeamColor[]).map(color => (
+                  <option key={color} value={color}>{TEAM_COLOR_LABELS[color]}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+        <div className="space-y-2">
+          <p className={labelClass}>Hráči v tíme</p>
+          <div className="grid grid-cols-3 gap-2">
+            {(['goalie', 'defense', 'forward'] as Position[]).map(position => (
+              <label key={position} className="space-y-1">
+                <span className={labelClass}>{POSITION_LABELS[position]}</span>
+                <input 
+                  type="number"
+                  min={0}
+                  value={format.slots[position]}
+                  onChange={e => update({ slots: { ...format.slots, [position]: Number(e.target.value) } })}
+                  className={`${fieldClass} w-full`}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+        <label className="flex items-center justify-between gap-4">
+          <span className={labelClass}>Max. hráčov (miesta v tímoch: {slotTotal})</span>
+          <input type="number" min={1} value={format.maxPlayers} onChange={e => update({ maxPlayers: Number(e.target.value) })} className={`${fieldClass} w-20`} />
+        </label>
+      </div>
+      <button 
+        onClick={save}
+        disabled={saving}
+        className="w-full mt-6 flex items-center justify-center gap-2 bg-white/10 hover:bg-white/20 py-3 rounded-2xl text-[10px] font-black uppercase tracking-[0.2em] transition-all disabled:opacity-20"
+      >
+        <Save className="w-4 h-4" /> Uložiť formát
+      </button>
+    </section>
+  );
+}
@@ -0,0 +1,96 @@
+import React, { useState, useEffect } from 'react';
+import { Layers, Copy } from 'lucide-react';
+import { Group } from '../types';
+import { apiFetch, groupPath, groupSlug } from '../api';
+
+// Every group on the server, to switch between them; the server key holder also sets up new ones
+export default function GroupList() {
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [name, setName] = useState('');
+  const [slug, setSlug] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const load = () => {
+    apiFetch('/api/groups')
+      .then(res => res.json())
+      .then(setGroups)
+      .catch(error => console.error('Error fetching groups:', error));
+  };
+
+  useEffect(load, []);
+
+  // The bare / shows the first group
+  const current = groupSlug() ?? groups[0]?.slug;
+  const canCreate = groups.some(group => group.organizer_key);
+
+  const organizerLink = (group: Group) => `${window.location.origin}${groupPath(group.slug)}?token=${group.organizer_key}`;
+
+  const create = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const res = await apiFetch('/api/groups', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, slug: slug || undefined }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error);
+        return;
+      }
+      setName('');
+      setSlug('');
+      load();
+    } catch (error) {
+      console.error('Error creating group:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (groups.length < 2 && !canCreate) return null;
+
+  const fieldClass = 'bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs font-bold focus:outline-none focus:border-red-600/50';
+
+  return (
+    <section className="glass rounded-[2.5rem] p-8 border border-white/5">
+      <h2 className="text-[10px] font-mono uppercase tracking-[0.3em] mb-6 opacity-40 flex items-center gap-3">
+        <Layers className="w-4 h-4" /> Skupiny
+      </h2>
+
+      <div className="space-y-2">
+        {groups.map(group => (
+          <div key={group.id} className={`flex items-center gap-2 rounded-2xl px-4 py-3 ${group.slug === current ? 'bg-red-600/20' : 'bg-white/5'}`}>
+            <a href={groupPath(group.slug)} className="flex-1 min-w-0 hover:text-red-400 transition-all">
+              <span className="block text-xs font-bold truncate">{group.name}</span>
+              <span className="block text-[9px] font-mono opacity-30 truncate">{groupPath(group.slug)}</span>
+            </a>
+            {group.organizer_key && (
+              <button
+                onClick={() => navigator.clipboard.writeText(organizerLink(group))}
+                className="p-1.5 rounded-lg hover:bg-white/10 transition-all"
+                title="Kopírovať odkaz organizátora"
+              >
+                <Copy className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {canCreate && (
+        <form onSubmit={create} className="mt-6 space-y-3">
+          <input type="text" value={name} onChange={e => setName(e.target.value)} placeholder="Názov skupiny" className={`${fieldClass} w-full`} required />
+          <input type="text" value={slug} onChange={e => setSlug(e.target.value)} placeholder="Adresa (nepovinná)" className={`${fieldClass} w-full font-mono`} />
+          <button
+            disabled={saving || !name.trim()}
+            className="w-full bg-white/10 hover:bg-white/20 py-3 rounded-2xl text-[10px] font-black uppercase tracking-[0.2em] transition-all disabled:opacity-20"
+          >
+            Založiť skupinu
+          </button>
+        </form>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react';
+import { History, MapPin, Users, UserX } from 'lucide-react';
+import { motion } from 'motion/react';
+import { Cancellation, Game, GamePlayer, GameWithRoster } from '../types';
+import { POSITION_ICONS, formatGameDate } from '../positions';
+import { TEAM_COLOR_CLASSES } from '../teams';
+import ResultForm from './ResultForm';
+import DrawLog from './DrawLog';
+import { apiFetch } from '../api';
+
+export default function HistoryView({ canEdit }: { canEdit: boolean }) {
+  const [games, setGames] = useState<GameWithRoster[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    apiFetch('/api/games')
+      .then(res => res.json())
+      .then(setGames)
+      .catch(error => console.error('Error fetching history:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const updateGame = (updated: Game) =>
+    setGames(prev => prev.map(g => g.id === updated.id ? { ...g, ...updated } : g));
+
+  const toggleNoShow = async (game: GameWithRoster, player: GamePlayer) => {
+    try {
+      const res = await apiFetch(`/api/games/${game.id}/no-show`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: player.id, no_show: !player.no_show }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        alert(error.error);
+        return;
+      }
+      setGames(prev => prev.map(g => g.id !== game.id ? g : {
+        ...g,
+        players: g.players.map(p => p.id === player.id ? { ...p, no_show: !player.no_show } : p),
+      }));
+    } catch (error) {
+      console.error('Error marking no-show:', error);
+    }
+  };
+
+  return (
+    <section className="glass rounded-[2.5rem] p-10 border border-white/5">
+      <div className="mb-12">
+        <h2 className="text-3xl font-display font-black italic uppercase tracking-tighter flex items-center gap-4">
+          <History className="w-8 h-8 text-red-600" /> HISTÓRIA
+        </h2>
+        <p className="text-[10px] font-mono uppercase tracking-[0.3em] opacity-30 mt-2">Past Games & Rosters</p>
+      </div>
+
+      {loading ? (
+        <div className="py-20 flex justify-center">
+          <div className="w-10 h-10 border-4 border-red-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : games.length === 0 ? (
+        <p className="py-20 text-center text-[10px] font-mono uppercase tracking-[0.4em] opacity-20">Zatiaľ žiadne odohraté zápasy</p>
+      ) : (
+        <div className="space-y-6">
+          {games.map(game => (
+            <motion.div 
+              key={game.id}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="bg-white/3 border border-white/5 rounded-[2rem] p-8"
+            >
+              <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+                <div>
+                  <p className="font-display font-black uppercase italic tracking-tight text-lg">{formatGameDate(game.date)}</p>
+                  {game.venue && (
+                    <p className="text-[10px] font-mono uppercase opacity-30 tracking-widest mt-1 flex items-center gap-2">
+                      <MapPin className="w-3 h-3" /> {game.venue}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-6">
+                  {canEdit ? (
+                    <ResultForm game={game} onSaved={updateGame} />
+                  ) : game.scores !== null && (
+                    <p className="font-display font-black text-2xl">
+                      {game.format.teams.map((team, index) => (
+                        <React.Fragment key={team.id}>
+                          {index > 0 && <span className="opacity-30 mx-2">:</span>}
+                          <span className={TEAM_COLOR_CLASSES[team.color].text}>{game.scores![team.id]}</span>
+                        </React.Fragment>
+                      ))}
+                    </p>
+                  )}
+                  <div className="flex items-center gap-3 bg-white/5 px-4 py-1.5 rounded-full">
+                    <Users className="w-4 h-4 opacity-50" />
+                    <span className="font-mono text-sm font-bold">{game.players.length}</span>
+                  </div>
+                </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+                {game.format.teams.map(team => (
+                  <React.Fragment key={team.id}>
+                    <RosterColumn
+                      title={team.name}
+                      color={TEAM_COLOR_CLASSES[team.color].text}
+                      players={game.players.filter(p => p.team === team.id)}
+                      onToggleNoShow={canEdit ? player => toggleNoShow(game, player) : undefined}
+                    />
+                  </React.Fragment>
+                ))}
+                <RosterColumn
+                  title="BEZ TÍMU"
+                  color="opacity-40"
+                  players={game.players.filter(p => p.team === null)}
+                  onToggleNoShow={canEdit ? player => toggleNoShow(game, player) : undefined}
+                />
+              </div>
+              {canEdit && <CancellationList gameId={game.id} />}
+              <div className="mt-6">
+                <DrawLog gameId={game.id} />
+              </div>
+            </motion.div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
+
+function RosterColumn({ title, color, players, onToggleNoShow }: {
+  title: string,
+  color: string,
+  players: GamePlayer[],
+  onToggleNoShow?: (player: GamePlayer) => void,
+}) {
+  if (players.length === 0) return null;
+  return (
+    <div className="space-y-3">
+      <p className={`text-[10px] font-mono uppercase tracking-[0.3em] border-b border-white/5 pb-2 ${color}`}>{title}</p>
+      {players.map(p => (
+        <div key={p.id} className={`group flex items-center gap-3 text-sm font-bold uppercase tracking-tight ${p.no_show ? 'line-through opacity-40' : ''}`}>
+          <span className="opacity-30">{POSITION_ICONS[p.played_position ?? p.position]}</span>
+          <span className="flex-1">{p.name}</span>
+          {onToggleNoShow ? (
+            <button
+              onClick={() => onToggleNoShow(p)}
+              className={`p-1 transition-all ${p.no_show ? 'text-red-600' : 'text-white/20 opacity-0 group-hover:opacity-100 hover:text-red-600'}`}
+              title={p.no_show ? 'Zrušiť neúčasť' : 'Neprišiel'}
+            >
+              <UserX className="w-3.5 h-3.5" />
+            </button>
+          ) : p.no_show && <UserX className="w-3.5 h-3.5 text-red-600" />}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const formatNotice = (minutes: number | null) => {
+  if (minutes === null) return '';
+  if (minutes < 0) return 'po začiatku';
+  return minutes < 60 ? `${minutes} min pred` : `${Math.floor(minutes / 60)} h pred`;
+};
+
+// Who dropped out of a game and how long before the start
+function CancellationList({ gameId }: { gameId: number }) {
+  const [cancellations, setCancellations] = useState<Cancellation[]>([]);
+
+  useEffect(() => {
+    apiFetch(`/api/games/${gameId}/cancellations`)
+      .then(res => res.json())
+      .then(setCancellations)
+      .catch(error => console.error('Error fetching cancellations:', error));
+  }, [gameId]);
+
+  if (cancellations.length === 0) return null;
+  return (
+    <div className="mt-6 pt-4 border-t border-white/5">
+      <p className="text-[9px] font-mono uppercase tracking-[0.2em] opacity-30 mb-3">Odhlásení</p>
+      <div className="flex flex-wrap gap-2">
+        {cancellations.map(c => (
+          <span key={c.id} className="bg-white/5 px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-tight flex items-center gap-2">
+            <span className="opacity-30">{POSITION_ICONS[c.position]}</span>
+            {c.name}
+            {c.waitlisted && <span className="opacity-30 font-mono normal-case">náhradník</span>}
+            <span className={`font-mono normal-case ${c.minutes_before !== null && c.minutes_before < 24 * 60 && !c.waitlisted ? 'text-yellow-500' : 'opacity-30'}`}>
+              {formatNotice(c.minutes_before)}
+            </span>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
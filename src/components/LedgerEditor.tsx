@@ -0,0 +1,98 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Wallet, Plus, X } from 'lucide-react';
+import { LedgerEntry, PaymentMethod, Player } from '../types';
+import { PAYMENT_METHOD_LABELS, formatMoney } from '../positions';
+import { apiFetch } from '../api';
+
+// Ice charges and payments of one player, with a form to record money handed in
+export default function LedgerEditor({ player, onChanged }: { player: Player, onChanged: () => void }) {
+  const [entries, setEntries] = useState<LedgerEntry[]>([]);
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      const res = await apiFetch(`/api/players/${player.id}/ledger`);
+      setEntries(await res.json());
+    } catch (error) {
+      console.error('Error fetching ledger:', error);
+    }
+  }, [player.id]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const request = async (url: string, init: RequestInit) => {
+    try {
+      const res = await apiFetch(url, init);
+      if (!res.ok) {
+        const error = await res.json();
+        alert(error.error);
+        return;
+      }
+      setAmount('');
+      fetchEntries();
+      onChanged();
+    } catch (error) {
+      console.error('Error updating ledger:', error);
+    }
+  };
+
+  const addPayment = () => request('/api/payments', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ playerId: player.id, amount: Math.round(Number(amount) * 100), method }),
+  });
+
+  const removePayment = (id: number) => request(`/api/payments/${id}`, { method: 'DELETE' });
+
+  const balance = entries.reduce((sum, entry) => entry.kind === 'payment' ? sum + entry.amount : sum - entry.amount, 0);
+  const fieldClass = 'bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs font-bold focus:outline-none focus:border-red-600/50 [color-scheme:dark]';
+
+  return (
+    <div className="pt-4 mt-3 border-t border-white/5 space-y-3">
+      <p className="text-[9px] font-mono uppercase tracking-[0.2em] opacity-30 flex items-center gap-2">
+        <Wallet className="w-3.5 h-3.5" /> Platby
+        <span className={`ml-auto font-bold ${balance < 0 ? 'text-red-500' : 'text-green-500'}`}>{formatMoney(balance)}</span>
+      </p>
+      <div className="space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+        {entries.map(entry => (
+          <div key={entry.id} className="flex items-center justify-between gap-2 text-xs">
+            <span className="opacity-40 font-mono text-[10px]">{new Date(entry.created_at).toLocaleDateString('sk-SK')}</span>
+            <span className="flex-1 opacity-60">
+              {entry.kind === 'charge' ? 'Ľad' : PAYMENT_METHOD_LABELS[entry.method!]}
+            </span>
+            <span className={`font-mono font-bold ${entry.kind === 'charge' ? 'text-red-500' : 'text-green-500'}`}>
+              {entry.kind === 'charge' ? '−' : '+'}{formatMoney(entry.amount)}
+            </span>
+            {entry.kind === 'payment' ? (
+              <button onClick={() => removePayment(entry.id)} className="p-1 text-white/20 hover:text-red-600 transition-colors" title="Zrušiť platbu">
+                <X className="w-3.5 h-3.5" />
+              </button>
+            ) : <span className="w-[22px]"></span>}
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="number"
+          min={0}
+          step={0.5}
+          value={amount}
+          onChange={e => setAmount(e.target.value)}
+          placeholder="€"
+          className={`${fieldClass} flex-1 min-w-0`}
+        />
+        <select value={method} onChange={e => setMethod(e.target.value as PaymentMethod)} className={fieldClass}>
+          {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(m => (
+            <option key={m} value={m}>{PAYMENT_METHOD_LABELS[m]}</option>
+          ))}
+        </select>
+        <button onClick={addPayment} disabled={!(Number(amount) > 0)} className="p-2 rounded-xl bg-white/10 hover:bg-white/20 transition-all disabled:opacity-20" title="Zapísať platbu">
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { Radio, Play, Pause, SkipForward, Flag, X } from 'lucide-react';
+import { Game, GameClock, GamePlayer, GameGoal } from '../types';
+import { TEAM_COLOR_CLASSES, findTeam } from '../teams';
+import { apiFetch } from '../api';
+import { useNow } from './SignupCountdown';
+
+const clockSeconds = (clock: GameClock, now: Date) =>
+  clock.elapsed + (clock.running_since ? Math.floor((now.getTime() - new Date(clock.running_since).getTime()) / 1000) : 0);
+
+const formatTime = (seconds: number) =>
+  `${String(Math.floor(seconds / 60)).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`;
+
+// Scoreboard, period clock and goal log of the game being played; only the organizer runs it
+export default function LiveGame({ game, goals, players, canEdit }: { game: Game, goals: GameGoal[], players: GamePlayer[], canEdit: boolean }) {
+  const [scorer, setScorer] = useState('');
+  const [assists, setAssists] = useState<string[]>(['', '']);
+  const [busy, setBusy] = useState(false);
+  const now = useNow();
+  const clock = game.clock;
+  const scorerTeam = players.find(p => p.id === Number(scorer))?.team ?? null;
+  const nameOf = (id: number) => players.find(p => p.id === id)?.name ?? '?';
+
+  const send = async (url: string, init: RequestInit) => {
+    setBusy(true);
+    try {
+      const res = await apiFetch(url, init);
+      if (!res.ok) {
+        const error = await res.json();
+        alert(error.error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('Error updating live game:', error);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const post = (url: string, body: object) => send(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  const addGoal = async () => {
+    const assistIds = assists.filter(Boolean).map(Number);
+    if (await post('/api/current-game/goals', { scorer: Number(scorer), assists: assistIds })) {
+      setScorer('');
+      setAssists(['', '']);
+    }
+  };
+
+  const endGame = () => {
+    if (!confirm('Ukončiť zápas a uložiť výsledok podľa gólov?')) return;
+    post('/api/current-game/end', {});
+  };
+
+  const fieldClass = 'bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs font-bold focus:outline-none focus:border-red-600/50 [color-scheme:dark] min-w-0';
+  const buttonClass = 'p-3 rounded-full bg-white/10 hover:bg-white/20 transition-all disabled:opacity-20';
+
+  return (
+    <section className="glass rounded-[3rem] p-12 border border-white/5">
+      <div className="flex justify-between items-center mb-10">
+        <h2 className="text-3xl font-display font-black italic uppercase tracking-tighter flex items-center gap-4">
+          <Radio className={`w-8 h-8 text-red-600 ${clock?.running_since ? 'animate-pulse' : ''}`} /> NAŽIVO
+        </h2>
+        {canEdit && (
+          <div className="flex items-center gap-3">
+            {clock?.running_since ? (
+              <button onClick={() => post('/api/current-game/clock', { action: 'pause' })} disabled={busy} className={buttonClass} title="Zastaviť čas">
+                <Pause className="w-4 h-4" />
+              </button>
+            ) : (
+              <button onClick={() => post('/api/current-game/clock', { action: 'start' })} disabled={busy} className={buttonClass} title="Spustiť čas">
+                <Play className="w-4 h-4" />
+              </button>
+            )}
+            <button onClick={() => post('/api/current-game/clock', { action: 'next_period' })} disabled={busy || !clock} className={buttonClass} title="Ďalšia tretina">
+              <SkipForward className="w-4 h-4" />
+            </button>
+            <button onClick={endGame} disabled={busy} className={buttonClass} title="Ukončiť zápas a uložiť výsledok">
+              <Flag className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-center gap-6 mb-4">
+        {game.format.teams.map((team, index) => (
+          <React.Fragment key={team.id}>
+            {index > 0 && <span className="font-display font-black text-4xl opacity-20">:</span>}
+            <div className="text-center">
+              <p className={`font-display font-black text-6xl ${TEAM_COLOR_CLASSES[team.color].text}`}>
+                {goals.filter(goal => goal.team === team.id).length}
+              </p>
+              <p className="text-[10px] font-mono uppercase tracking-[0.3em] opacity-40 mt-1">{team.name}</p>
+            </div>
+          </React.Fragment>
+        ))}
+      </div>
+      <p className="text-center font-mono text-sm font-bold tracking-[0.2em] mb-10">
+        {clock ? (
+          <>
+            <span className="opacity-40">{clock.period}. TRETINA</span>
+            <span className="ml-4 text-xl">{formatTime(clockSeconds(clock, now))}</span>
+          </>
+        ) : (
+          <span className="opacity-20 text-[10px] uppercase">Čas nebeží</span>
+        )}
+      </p>
+
+      {canEdit && (
+        <div className="flex flex-wrap gap-2 mb-8">
+          <select value={scorer} onChange={e => { setScorer(e.target.value); setAssists(['', '']); }} className={`${fieldClass} flex-1`}>
+            <option value="">Strelec…</option>
+            {game.format.teams.map(team => (
+              <optgroup key={team.id} label={team.name}>
+                {players.filter(p => p.team === team.id).map(p => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+          {assists.map((assist, index) => (
+            <select
+              key={index}
+              value={assist}
+              onChange={e => setAssists(assists.map((a, i) => i === index ? e.target.value : a))}
+              disabled={!scorerTeam}
+              className={`${fieldClass} flex-1 disabled:opacity-30`}
+            >
+              <option value="">{index + 1}. asistencia</option>
+              {players.filter(p => p.team === scorerTeam && String(p.id) !== scorer && !assists.some((a, i) => i !== index && a === String(p.id))).map(p => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+          ))}
+          <button
+            onClick={addGoal}
+            disabled={busy || !scorer}
+            className="px-5 py-2 rounded-xl bg-red-600 hover:bg-red-500 text-[10px] font-black uppercase tracking-[0.2em] transition-all disabled:opacity-20"
+          >
+            Gól
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {[...goals].reverse().map(goal => {
+          const team = findTeam(game.format, goal.team);
+          return (
+            <div key={goal.id} className="flex items-center gap-4 text-xs">
+              <span className="font-mono opacity-30 w-20">
+                {goal.period !== null && goal.time !== null ? `${goal.period}. ${formatTime(goal.time)}` : '—'}
+              </span>
+              <div className={`w-1.5 h-1.5 rounded-full ${team ? TEAM_COLOR_CLASSES[team.color].dot : 'bg-white/20'}`}></div>
+              <span className="font-bold uppercase tracking-tight flex-1">
+                {nameOf(goal.scorer_id)}
+                {goal.assist_ids.length > 0 && (
+                  <span className="opacity-30 font-normal normal-case ml-2">({goal.assist_ids.map(nameOf).join(', ')})</span>
+                )}
+              </span>
+              {canEdit && (
+                <button onClick={() => send(`/api/current-game/goals/${goal.id}`, { method: 'DELETE' })} className="p-1 text-white/20 hover:text-red-600 transition-colors" title="Zmazať gól">
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
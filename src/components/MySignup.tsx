@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Zap, CheckCircle2, Hourglass, LogIn, LogOut, MapPin } from 'lucide-react';
+import { Game, GamePlayer, Identity } from '../types';
+import { POSITION_ICONS, POSITION_LABELS, formatGameDate } from '../positions';
+import { TEAM_COLOR_CLASSES, findTeam } from '../teams';
+import { apiFetch } from '../api';
+import SignupCountdown, { signupWindow, useNow } from './SignupCountdown';
+
+// Stripped-down screen for a player opening their personal link: sign in or out, nothing else
+export default function MySignup({ identity, game, gamePlayers, byReliability }: { identity: Identity, game: Game | null, gamePlayers: GamePlayer[], byReliability: boolean }) {
+  const [busy, setBusy] = useState(false);
+  const now = useNow();
+  const windowOpen = !game || signupWindow(game, now).state === 'open';
+  const player = identity.player!;
+  const roster = gamePlayers.filter(p => !p.waitlisted);
+  const mySignup = gamePlayers.find(p => p.player_id === player.id);
+  const myTeam = game && mySignup ? findTeam(game.format, mySignup.team) : null;
+  // Ordered by reliability the place in line is not known until a slot frees up
+  const placeInLine = mySignup?.waitlisted && !byReliability
+    ? gamePlayers.filter(p => p.waitlisted && p.position === mySignup.position).indexOf(mySignup) + 1
+    : 0;
+
+  const send = async (url: string, body: object) => {
+    setBusy(true);
+    try {
+      const res = await apiFetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        alert(error.error);
+      }
+    } catch (error) {
+      console.error('Error updating signup:', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#050505] text-white font-sans hockey-grid flex flex-col items-center px-6 py-12">
+      <div className="atmosphere" />
+      <div className="flex items-center gap-4 mb-12">
+        <div className="bg-red-600 p-2 rounded-2xl shadow-2xl shadow-red-600/40 rotate-3">
+          <Zap className="w-6 h-6 text-white fill-white" />
+        </div>
+        <h1 className="text-2xl font-display font-black tracking-tighter leading-none italic">
+          ROZLOSOVANIE <span className="text-red-600">HOKEJ</span>
+        </h1>
+      </div>
+
+      <section className="glass w-full max-w-md rounded-[2.5rem] p-10 border border-white/5 space-y-8">
+        <div>
+          <p className="text-[10px] font-mono uppercase tracking-[0.3em] opacity-40">Ahoj</p>
+          <p className="text-3xl font-display font-black uppercase italic tracking-tighter mt-1">{player.name}</p>
+          <p className="text-[10px] font-mono uppercase tracking-widest opacity-30 mt-2 flex items-center gap-2">
+            {POSITION_ICONS[player.position]} {POSITION_LABELS[player.position]}
+          </p>
+        </div>
+
+        {game && (
+          <div className="bg-white/3 border border-white/5 rounded-3xl p-6">
+            <p className="font-display font-bold uppercase">{formatGameDate(game.date)}</p>
+            {game.venue && (
+              <p className="text-[10px] font-mono uppercase opacity-30 tracking-widest mt-1 flex items-center gap-2">
+                <MapPin className="w-3 h-3" /> {game.venue}{game.start_time && ` · ${game.start_time}`}
+              </p>
+            )}
+            <div className="flex items-end justify-between mt-4">
+              <p className="text-[10px] font-mono uppercase opacity-40 tracking-widest">
+                Nahlásených {roster.length} / {game.format.maxPlayers}
+              </p>
+              <SignupCountdown game={game} />
+            </div>
+          </div>
+        )}
+
+        <div className="text-center py-4">
+          {!mySignup ? (
+            <p className="text-[11px] font-mono uppercase tracking-[0.3em] opacity-40">Nie si nahlásený</p>
+          ) : mySignup.waitlisted ? (
+            <p className="text-sm font-bold uppercase text-yellow-500 flex items-center justify-center gap-2">
+              <Hourglass className="w-5 h-5" /> Čakacia listina{placeInLine > 0 && ` · #${placeInLine}`}
+            </p>
+          ) : (
+            <p className="text-sm font-bold uppercase text-green-500 flex items-center justify-center gap-2">
+              <CheckCircle2 className="w-5 h-5" /> Si nahlásený
+              {myTeam && <span className={TEAM_COLOR_CLASSES[myTeam.color].text}>· {myTeam.name} TÍM</span>}
+            </p>
+          )}
+        </div>
+
+        {mySignup ? (
+          <button 
+            onClick={() => send('/api/current-game/remove', { id: mySignup.id })}
+            disabled={busy || !windowOpen}
+            className="w-full flex items-center justify-center gap-3 border border-white/10 py-5 rounded-2xl text-xs font-black uppercase tracking-[0.2em] hover:bg-white/5 transition-all active:scale-95 disabled:opacity-30"
+          >
+            <LogOut className="w-4 h-4" /> Odhlásiť sa
+          </button>
+        ) : (
+          <button 
+            onClick={() => send('/api/current-game/signup', {})}
+            disabled={busy || !windowOpen}
+            className="w-full flex items-center justify-center gap-3 bg-red-600 py-5 rounded-2xl text-xs font-black uppercase tracking-[0.2em] hover:bg-red-500 transition-all active:scale-95 shadow-xl shadow-red-600/30 disabled:opacity-30"
+          >
+            <LogIn className="w-4 h-4" /> Prihlásiť sa
+          </button>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { Save, UserX, UserCheck, GitMerge, Link, RefreshCw } from 'lucide-react';
+import { Player, Position } from '../types';
+import { POSITION_LABELS } from '../positions';
+import { apiFetch, signupLink } from '../api';
+
+// Inline edit, deactivate and merge controls for one player record
+export default function PlayerEditor({ player, players, onChanged }: { player: Player, players: Player[], onChanged: () => void }) {
+  const [name, setName] = useState(player.name);
+  const [position, setPosition] = useState<Position>(player.position);
+  const [secondary, setSecondary] = useState<Position[]>(player.secondary_positions);
+  const [mergeInto, setMergeInto] = useState('');
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const request = async (url: string, method: string, body: object) => {
+    try {
+      const res = await apiFetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        alert(error.error);
+        return;
+      }
+      onChanged();
+    } catch (error) {
+      console.error('Error updating player:', error);
+    }
+  };
+
+  const save = () => request(`/api/players/${player.id}`, 'PATCH', {
+    name,
+    position,
+    secondary_positions: secondary.filter(pos => pos !== position),
+  });
+
+  // Secondary positions are ranked in the order they are picked
+  const toggleSecondary = (pos: Position) =>
+    setSecondary(secondary.includes(pos) ? secondary.filter(p => p !== pos) : [...secondary, pos]);
+
+  const toggleActive = () => request(`/api/players/${player.id}`, 'PATCH', { active: !player.active });
+
+  const copyLink = () => {
+    if (!player.token) return;
+    navigator.clipboard.writeText(signupLink(player.token));
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
+
+  const renewLink = () => {
+    if (!confirm(`Vytvoriť nový odkaz pre ${player.name}? Starý prestane fungovať.`)) return;
+    request(`/api/players/${player.id}/token`, 'POST', {});
+  };
+
+  const merge = () => {
+    const target = players.find(p => p.id === Number(mergeInto));
+    if (!target || !confirm(`Zlúčiť hráča ${player.name} do ${target.name}? Záznam ${player.name} sa odstráni.`)) return;
+    request(`/api/players/${player.id}/merge`, 'POST', { into: target.id });
+  };
+
+  const fieldClass = 'bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs font-bold focus:outline-none focus:border-red-600/50';
+
+  return (
+    <div className="pt-4 mt-3 border-t border-white/5 space-y-3">
+      <div className="flex gap-2">
+        <input value={name} onChange={e => setName(e.target.value)} className={`${fieldClass} flex-1 min-w-0`} />
+        <select value={position} onChange={e => setPosition(e.target.value as Position)} className={`${fieldClass} [color-scheme:dark]`}>
+          {(['forward', 'defense', 'goalie'] as Position[]).map(pos => (
+            <option key={pos} value={pos}>{POSITION_LABELS[pos]}</option>
+          ))}
+        </select>
+        <button onClick={save} className="p-2 rounded-xl bg-white/10 hover:bg-white/20 transition-all" title="Uložiť">
+          <Save className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="flex items-center gap-2">
+        <span className="text-[9px] font-mono uppercase tracking-[0.2em] opacity-30">Aj na</span>
+        {(['forward', 'defense', 'goalie'] as Position[]).filter(pos => pos !== position).map(pos => (
+          <button
+            key={pos}
+            onClick={() => toggleSecondary(pos)}
+            className={`flex-1 px-3 py-2 rounded-xl border text-[10px] font-bold uppercase tracking-widest transition-all ${
+              secondary.includes(pos) ? 'bg-white/15 border-white/20' : 'bg-white/5 border-white/10 opacity-40 hover:opacity-80'
+            }`}
+            title="Náhradná pozícia pre žrebovanie"
+          >
+            {secondary.includes(pos) && <span className="text-red-500 mr-1">{secondary.filter(p => p !== position).indexOf(pos) + 1}.</span>}
+            {POSITION_LABELS[pos]}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <button onClick={copyLink} className="flex-1 flex items-center justify-center gap-2 rounded-xl bg-white/10 hover:bg-white/20 text-[10px] font-black uppercase tracking-[0.15em] transition-all">
+          <Link className="w-3.5 h-3.5" /> {linkCopied ? 'Skopírované' : 'Odkaz na prihlásenie'}
+        </button>
+        <button onClick={renewLink} className="p-2 rounded-xl bg-white/10 hover:bg-white/20 transition-all" title="Nový odkaz">
+          <RefreshCw className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="flex gap-2">
+        <select value={mergeInto} onChange={e => setMergeInto(e.target.value)} className={`${fieldClass} flex-1 min-w-0 [color-scheme:dark]`}>
+          <option value="">Zlúčiť do…</option>
+          {players.filter(p => p.id !== player.id).map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        <button onClick={merge} disabled={!mergeInto} className="p-2 rounded-xl bg-white/10 hover:bg-white/20 transition-all disabled:opacity-20" title="Zlúčiť duplicitný záznam">
+          <GitMerge className="w-4 h-4" />
+        </button>
+        <button onClick={toggleActive} className="p-2 rounded-xl bg-white/10 hover:bg-white/20 transition-all" title={player.active ? 'Deaktivovať' : 'Aktivovať'}>
+          {player.active ? <UserX className="w-4 h-4" /> : <UserCheck className="w-4 h-4" />}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { FileSpreadsheet, Download, Upload } from 'lucide-react';
+import { ImportResult, ImportStatus } from '../types';
+import { POSITION_LABELS } from '../positions';
+import { apiFetch } from '../api';
+
+const STATUS_CLASSES: Record<ImportStatus, string> = {
+  new: 'text-green-500',
+  duplicate: 'text-yellow-500',
+  invalid: 'text-red-500',
+};
+
+const STATUS_LABELS: Record<ImportStatus, string> = {
+  new: 'Nový',
+  duplicate: 'Už existuje',
+  invalid: 'Chyba',
+};
+
+// CSV export of the player database and an import that shows what it would add before adding it
+export default function PlayerImport({ onImported }: { onImported: () => void }) {
+  const [csv, setCsv] = useState('');
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const send = async (commit: boolean) => {
+    setBusy(true);
+    try {
+      const res = await apiFetch('/api/players/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ csv, commit }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error);
+        return;
+      }
+      if (commit) {
+        setCsv('');
+        setPreview(null);
+        onImported();
+      } else {
+        setPreview(data);
+      }
+    } catch (error) {
+      console.error('Error importing players:', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    setCsv(await file.text());
+    setPreview(null);
+  };
+
+  const exportCsv = async () => {
+    try {
+      const res = await apiFetch('/api/players/export');
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'hraci.csv';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting players:', error);
+    }
+  };
+
+  const newRows = preview?.rows.filter(row => row.status === 'new').length ?? 0;
+  const buttonClass = 'flex-1 flex items-center justify-center gap-2 bg-white/10 hover:bg-white/20 py-3 rounded-2xl text-[10px] font-black uppercase tracking-[0.2em] transition-all disabled:opacity-20';
+
+  return (
+    <section className="glass rounded-[2.5rem] p-8 border border-white/5">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-[10px] font-mono uppercase tracking-[0.3em] opacity-40 flex items-center gap-3">
+          <FileSpreadsheet className="w-4 h-4" /> Import hráčov
+        </h2>
+        <button onClick={exportCsv} className="p-2 rounded-xl bg-white/5 hover:bg-white/20 transition-all" title="Stiahnuť hráčov ako CSV">
+          <Download className="w-4 h-4" />
+        </button>
+      </div>
+      <textarea
+        value={csv}
+        onChange={e => { setCsv(e.target.value); setPreview(null); }}
+        placeholder={'name,position,secondary_positions,rating\nPeter Novák,forward,defense,1050'}
+        rows={4}
+        className="w-full bg-white/5 border border-white/10 rounded-2xl p-4 text-xs font-mono focus:outline-none focus:border-red-600/50 transition-all placeholder:opacity-20 custom-scrollbar"
+      />
+      <input type="file" accept=".csv,text/csv" onChange={e => loadFile(e.target.files?.[0])} className="mt-2 text-[10px] font-mono opacity-40 file:mr-3 file:rounded-xl file:border-0 file:bg-white/10 file:px-3 file:py-1.5 file:text-white" />
+
+      {preview && (
+        <div className="mt-4 space-y-1 max-h-60 overflow-y-auto pr-2 custom-scrollbar">
+          {preview.rows.map(row => (
+            <div key={row.line} className="flex items-center gap-2 text-xs" title={row.error ?? undefined}>
+              <span className="font-mono opacity-20 w-6 text-right">{row.line}</span>
+              <span className="flex-1 font-bold truncate">{row.name || '—'}</span>
+              <span className="opacity-40 text-[10px]">{row.position ? POSITION_LABELS[row.position] : ''}</span>
+              <span className={`text-[9px] font-mono uppercase tracking-widest ${STATUS_CLASSES[row.status]}`}>{row.error ?? STATUS_LABELS[row.status]}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2 mt-4">
+        <button onClick={() => send(false)} disabled={busy || !csv.trim()} className={buttonClass}>
+          Náhľad
+        </button>
+        <button onClick={() => send(true)} disabled={busy || newRows === 0} className={buttonClass}>
+          <Upload className="w-4 h-4" /> Pridať {newRows > 0 ? newRows : ''}
+        </button>
+      </div>
+    </section>
+  );
+}
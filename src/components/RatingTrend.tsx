@@ -0,0 +1,45 @@
+import React, { useState, useEffect } from 'react';
+import { TrendingUp, TrendingDown } from 'lucide-react';
+import { Player, RatingChange } from '../types';
+import { apiFetch } from '../api';
+
+// Small sparkline of a player's rating after each rated game
+export default function RatingTrend({ player }: { player: Player }) {
+  const [changes, setChanges] = useState<RatingChange[] | null>(null);
+
+  useEffect(() => {
+    apiFetch(`/api/players/${player.id}/ratings`)
+      .then(res => res.json())
+      .then(setChanges)
+      .catch(error => console.error('Error fetching rating history:', error));
+  }, [player.id, player.rating]);
+
+  if (!changes) return null;
+  if (changes.length === 0) {
+    return <p className="text-[10px] font-mono uppercase opacity-20 tracking-widest py-2">Zatiaľ bez hodnotených zápasov</p>;
+  }
+
+  const points = [changes[0].rating_before, ...changes.map(c => c.rating_after)];
+  const min = Math.min(...points);
+  const max = Math.max(...points);
+  const range = max - min || 1;
+  const path = points
+    .map((value, i) => `${(i / (points.length - 1)) * 200},${40 - ((value - min) / range) * 36 - 2}`)
+    .join(' ');
+  const total = points[points.length - 1] - points[0];
+
+  return (
+    <div className="pt-3 space-y-2">
+      <svg viewBox="0 0 200 40" className="w-full h-10" preserveAspectRatio="none">
+        <polyline points={path} fill="none" stroke={total >= 0 ? '#22c55e' : '#ef4444'} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-[10px] font-mono uppercase tracking-widest opacity-40">
+        <span>{changes.length} zápasov</span>
+        <span className={`flex items-center gap-1 ${total >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+          {total >= 0 ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />}
+          {total >= 0 ? '+' : ''}{Math.round(total)}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import React, { useState, useEffect } from 'react';
+import { Trophy } from 'lucide-react';
+import { Game, Team } from '../types';
+import { TEAM_COLOR_CLASSES } from '../teams';
+import { apiFetch } from '../api';
+
+export default function ResultForm({ game, onSaved }: { game: Game, onSaved?: (game: Game) => void }) {
+  const savedScores = () => Object.fromEntries(game.format.teams.map(team => [team.id, game.scores?.[team.id] ?? 0]));
+  const [scores, setScores] = useState<Record<Team, number>>(savedScores);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setScores(savedScores());
+  }, [game.id, game.scores]);
+
+  const saveResult = async () => {
+    if (game.scores !== null && !confirm('Prepísať uložený výsledok? Zmeny hodnotenia sa prepočítajú.')) return;
+    setSaving(true);
+    try {
+      const res = await apiFetch(`/api/games/${game.id}/result`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scores }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error);
+        return;
+      }
+      onSaved?.(data.game);
+    } catch (error) {
+      console.error('Error saving result:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      {game.format.teams.map((team, index) => (
+        <React.Fragment key={team.id}>
+          {index > 0 && <span className="font-display font-black opacity-30">:</span>}
+          <input 
+            type="number"
+            min={0}
+            value={scores[team.id] ?? 0}
+            onChange={e => setScores({ ...scores, [team.id]: Math.max(0, Number(e.target.value)) })}
+            title={team.name}
+            className={`w-16 bg-white/5 border rounded-2xl py-2 text-center text-xl font-display font-black focus:outline-none ${TEAM_COLOR_CLASSES[team.color].border} ${TEAM_COLOR_CLASSES[team.color].text}`}
+          />
+        </React.Fragment>
+      ))}
+      <button 
+        onClick={saveResult}
+        disabled={saving}
+        className="flex items-center gap-2 text-[10px] font-black uppercase tracking-[0.2em] bg-white/10 hover:bg-white/20 px-4 py-3 rounded-full transition-all disabled:opacity-20"
+        title="Uložiť výsledok a prepočítať hodnotenie"
+      >
+        <Trophy className="w-4 h-4" /> {game.scores === null ? 'Uložiť' : 'Opraviť'}
+      </button>
+    </div>
+  );
+}
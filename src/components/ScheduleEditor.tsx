@@ -0,0 +1,110 @@
+import React, { useState, useEffect } from 'react';
+import { Repeat, Save } from 'lucide-react';
+import { Schedule } from '../types';
+import { apiFetch } from '../api';
+
+const DAY_LABELS = ['Nedeľa', 'Pondelok', 'Utorok', 'Streda', 'Štvrtok', 'Piatok', 'Sobota'];
+
+// Organizer form for the recurring weekly slot and its signup window
+export default function ScheduleEditor() {
+  const [schedule, setSchedule] = useState<Schedule | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    apiFetch('/api/schedule')
+      .then(res => res.json())
+      .then(setSchedule)
+      .catch(error => console.error('Error fetching schedule:', error));
+  }, []);
+
+  if (!schedule) return null;
+
+  const update = (changes: Partial<Schedule>) => setSchedule({ ...schedule, ...changes });
+
+  const save = async () => {
+    if (schedule.enabled && !confirm('Uložiť rozpis? Aktuálny zápas sa presunie na najbližší termín.')) return;
+    setSaving(true);
+    try {
+      const res = await apiFetch('/api/schedule', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(schedule),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error);
+        return;
+      }
+      setSchedule(data);
+    } catch (error) {
+      console.error('Error saving schedule:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const fieldClass = 'bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs font-bold focus:outline-none focus:border-red-600/50 [color-scheme:dark]';
+  const labelClass = 'text-[9px] font-mono uppercase tracking-[0.2em] opacity-40';
+
+  const daySelect = (value: number, onChange: (day: number) => void) => (
+    <select value={value} onChange={e => onChange(Number(e.target.value))} className={`${fieldClass} flex-1`}>
+      {DAY_LABELS.map((label, day) => <option key={day} value={day}>{label}</option>)}
+    </select>
+  );
+
+  return (
+    <section className="glass rounded-[2.5rem] p-8 border border-white/5">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-[10px] font-mono uppercase tracking-[0.3em] opacity-40 flex items-center gap-3">
+          <Repeat className="w-4 h-4" /> Pravidelný termín
+        </h2>
+        <input 
+          type="checkbox"
+          checked={schedule.enabled}
+          onChange={e => update({ enabled: e.target.checked })}
+          className="w-4 h-4 accent-red-600"
+        />
+      </div>
+      <div className={`space-y-4 ${schedule.enabled ? '' : 'opacity-30'}`}>
+        <div className="space-y-2">
+          <p className={labelClass}>Zápas</p>
+          <div className="flex gap-2">
+            {daySelect(schedule.day, day => update({ day }))}
+            <input type="time" value={schedule.time} onChange={e => update({ time: e.target.value })} className={fieldClass} />
+          </div>
+          <input 
+            type="text"
+            value={schedule.venue}
+            onChange={e => update({ venue: e.target.value })}
+            placeholder="Štadión"
+            className={`${fieldClass} w-full placeholder:opacity-20`}
+          />
+        </div>
+        <div className="space-y-2">
+          <p className={labelClass}>Otvorenie prihlasovania</p>
+          <div className="flex gap-2">
+            {daySelect(schedule.opensDay, opensDay => update({ opensDay }))}
+            <input type="time" value={schedule.opensTime} onChange={e => update({ opensTime: e.target.value })} className={fieldClass} />
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <label className="space-y-2">
+            <span className={labelClass}>Uzávierka (min pred)</span>
+            <input type="number" min={0} value={schedule.lockMinutesBefore} onChange={e => update({ lockMinutesBefore: Number(e.target.value) })} className={`${fieldClass} w-full`} />
+          </label>
+          <label className="space-y-2">
+            <span className={labelClass}>Žrebovanie (min pred)</span>
+            <input type="number" min={0} max={schedule.lockMinutesBefore} value={schedule.drawMinutesBefore} onChange={e => update({ drawMinutesBefore: Number(e.target.value) })} className={`${fieldClass} w-full`} />
+          </label>
+        </div>
+      </div>
+      <button 
+        onClick={save}
+        disabled={saving}
+        className="w-full mt-6 flex items-center justify-center gap-2 bg-white/10 hover:bg-white/20 py-3 rounded-2xl text-[10px] font-black uppercase tracking-[0.2em] transition-all disabled:opacity-20"
+      >
+        <Save className="w-4 h-4" /> Uložiť rozpis
+      </button>
+    </section>
+  );
+}
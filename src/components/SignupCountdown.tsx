@@ -0,0 +1,74 @@
+import React, { useState, useEffect } from 'react';
+import { Timer } from 'lucide-react';
+import { Game } from '../types';
+
+export type SignupWindowState = 'upcoming' | 'open' | 'locked' | 'started';
+
+const STATE_LABELS: Record<SignupWindowState, string> = {
+  upcoming: 'Prihlasovanie o',
+  open: 'Uzávierka o',
+  locked: 'Uzavreté · zápas o',
+  started: 'Zápas prebieha',
+};
+
+const STATE_COLORS: Record<SignupWindowState, string> = {
+  upcoming: 'text-yellow-500',
+  open: 'text-green-500',
+  locked: 'text-red-500',
+  started: 'text-red-500',
+};
+
+export const gameStartTime = (game: Game) =>
+  game.start_time ? new Date(`${game.date}T${game.start_time}:00`) : null;
+
+// Where the game is in its signup window and when the next step happens
+export function signupWindow(game: Game, now: Date): { state: SignupWindowState, until: Date | null } {
+  const start = gameStartTime(game);
+  if (game.signups_open_at && now < new Date(game.signups_open_at)) {
+    return { state: 'upcoming', until: new Date(game.signups_open_at) };
+  }
+  if (!game.signups_lock_at || now < new Date(game.signups_lock_at)) {
+    return { state: 'open', until: game.signups_lock_at ? new Date(game.signups_lock_at) : null };
+  }
+  if (start && now < start) {
+    return { state: 'locked', until: start };
+  }
+  return { state: 'started', until: null };
+}
+
+export const useNow = (intervalMs = 1000) => {
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+  return now;
+};
+
+const formatRemaining = (ms: number) => {
+  const totalMinutes = Math.max(0, Math.floor(ms / 60_000));
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${Math.max(0, Math.floor(ms / 1000) % 60)}s`;
+};
+
+export default function SignupCountdown({ game }: { game: Game }) {
+  const now = useNow();
+  const { state, until } = signupWindow(game, now);
+  // Unscheduled games have no window to count down to
+  if (state === 'open' && !until) return null;
+
+  return (
+    <div className="text-right">
+      <p className="text-[10px] font-mono uppercase opacity-30 flex items-center justify-end gap-1.5">
+        <Timer className="w-3 h-3" /> {STATE_LABELS[state]}
+      </p>
+      <p className={`text-lg font-display font-bold ${STATE_COLORS[state]}`}>
+        {until ? formatRemaining(until.getTime() - now.getTime()) : '—'}
+      </p>
+    </div>
+  );
+}
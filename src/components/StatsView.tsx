@@ -0,0 +1,143 @@
+import React, { useState, useEffect } from 'react';
+import { BarChart3, Trophy } from 'lucide-react';
+import { PlayerStats, StatsLeaders, StatsResponse } from '../types';
+import { apiFetch } from '../api';
+
+const LEADER_TITLES: Record<keyof StatsLeaders, string> = {
+  points: 'Body',
+  goals: 'Góly',
+  assists: 'Asistencie',
+  wins: 'Výhry',
+  longest_win_streak: 'Séria výhier',
+  goals_against_average: 'Inkasované / zápas',
+};
+
+const LEADER_VALUES: Record<keyof StatsLeaders, (player: PlayerStats) => string> = {
+  points: player => String(player.points),
+  goals: player => String(player.goals),
+  assists: player => String(player.assists),
+  wins: player => String(player.wins),
+  longest_win_streak: player => String(player.longest_win_streak),
+  goals_against_average: player => player.goals_against_average!.toFixed(2),
+};
+
+const seasonLabel = (season: number) => `${season}/${String(season + 1).slice(2)}`;
+
+// Season statistics and leaderboards, aggregated by the server
+export default function StatsView() {
+  const [seasons, setSeasons] = useState<number[]>([]);
+  const [season, setSeason] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [stats, setStats] = useState<StatsResponse | null>(null);
+
+  useEffect(() => {
+    apiFetch('/api/stats/seasons')
+      .then(res => res.json())
+      .then((data: number[]) => {
+        setSeasons(data);
+        if (data.length > 0) setSeason(String(data[0]));
+      })
+      .catch(error => console.error('Error fetching seasons:', error));
+  }, []);
+
+  useEffect(() => {
+    const params = new URLSearchParams();
+    if (season) params.set('season', season);
+    if (from) params.set('from', from);
+    if (to) params.set('to', to);
+    apiFetch(`/api/stats?${params}`)
+      .then(res => res.json())
+      .then(setStats)
+      .catch(error => console.error('Error fetching stats:', error));
+  }, [season, from, to]);
+
+  const fieldClass = 'bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs font-bold focus:outline-none focus:border-red-600/50 [color-scheme:dark]';
+  const playerById = (id: number) => stats?.players.find(p => p.player_id === id);
+
+  return (
+    <section className="glass rounded-[2.5rem] p-10 border border-white/5">
+      <div className="flex flex-wrap items-end justify-between gap-6 mb-12">
+        <div>
+          <h2 className="text-3xl font-display font-black italic uppercase tracking-tighter flex items-center gap-4">
+            <BarChart3 className="w-8 h-8 text-red-600" /> ŠTATISTIKY
+          </h2>
+          <p className="text-[10px] font-mono uppercase tracking-[0.3em] opacity-30 mt-2">Season Stats & Leaders</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={season} onChange={e => setSeason(e.target.value)} className={fieldClass}>
+            <option value="">Všetky sezóny</option>
+            {seasons.map(s => <option key={s} value={s}>{seasonLabel(s)}</option>)}
+          </select>
+          <input type="date" value={from} onChange={e => setFrom(e.target.value)} className={fieldClass} title="Od" />
+          <input type="date" value={to} onChange={e => setTo(e.target.value)} className={fieldClass} title="Do" />
+        </div>
+      </div>
+
+      {!stats || stats.players.length === 0 ? (
+        <p className="py-20 text-center text-[10px] font-mono uppercase tracking-[0.4em] opacity-20">Žiadne zápasy s výsledkom v tomto období</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-4 mb-12">
+            {(Object.keys(LEADER_TITLES) as (keyof StatsLeaders)[]).map(category => (
+              <div key={category} className="bg-white/3 border border-white/5 rounded-[2rem] p-6">
+                <p className="text-[9px] font-mono uppercase tracking-[0.2em] opacity-40 mb-4 flex items-center gap-2">
+                  <Trophy className="w-3.5 h-3.5" /> {LEADER_TITLES[category]}
+                </p>
+                {stats.leaders[category].length === 0 && <p className="text-[11px] italic opacity-10 font-mono">Empty</p>}
+                {stats.leaders[category].map((id, index) => {
+                  const player = playerById(id)!;
+                  return (
+                    <div key={id} className="flex items-center justify-between text-xs font-bold uppercase tracking-tight mt-2">
+                      <span className={index === 0 ? 'text-red-500' : 'opacity-70'}>{player.name}</span>
+                      <span className="font-mono">{LEADER_VALUES[category](player)}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-[9px] font-mono uppercase tracking-[0.2em] opacity-40 text-right">
+                  <th className="text-left py-3 font-normal">Hráč</th>
+                  <th className="font-normal" title="Zápasy">Z</th>
+                  <th className="font-normal" title="Výhry">V</th>
+                  <th className="font-normal" title="Remízy">R</th>
+                  <th className="font-normal" title="Prehry">P</th>
+                  <th className="font-normal" title="Góly">G</th>
+                  <th className="font-normal" title="Asistencie">A</th>
+                  <th className="font-normal" title="Body">B</th>
+                  <th className="font-normal" title="Body na zápas">B/Z</th>
+                  <th className="font-normal" title="Aktuálna / najdlhšia séria výhier">Séria</th>
+                  <th className="font-normal" title="Zápasy v bráne">Z brán.</th>
+                  <th className="font-normal" title="Inkasované góly na zápas">GAA</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.players.map(player => (
+                  <tr key={player.player_id} className="border-t border-white/5 text-right font-mono">
+                    <td className="text-left py-3 font-sans font-bold uppercase tracking-tight">{player.name}</td>
+                    <td>{player.games}</td>
+                    <td className="text-green-500">{player.wins}</td>
+                    <td className="opacity-50">{player.ties}</td>
+                    <td className="text-red-500">{player.losses}</td>
+                    <td>{player.goals}</td>
+                    <td>{player.assists}</td>
+                    <td className="font-bold">{player.points}</td>
+                    <td>{player.points_per_game.toFixed(2)}</td>
+                    <td>{player.win_streak} / {player.longest_win_streak}</td>
+                    <td className="opacity-50">{player.goalie_games || '–'}</td>
+                    <td>{player.goals_against_average === null ? '–' : player.goals_against_average.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,69 @@
+import React, { useState, useEffect } from 'react';
+import { Sparkles, Save } from 'lucide-react';
+import { VarietySettings } from '../types';
+import { apiFetch } from '../api';
+
+// Organizer form for how strongly the draw avoids putting recent teammates together again
+export default function VarietyEditor() {
+  const [variety, setVariety] = useState<VarietySettings | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    apiFetch('/api/variety')
+      .then(res => res.json())
+      .then(setVariety)
+      .catch(error => console.error('Error fetching variety settings:', error));
+  }, []);
+
+  if (!variety) return null;
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const res = await apiFetch('/api/variety', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(variety),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error);
+        return;
+      }
+      setVariety(data);
+    } catch (error) {
+      console.error('Error saving variety settings:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const fieldClass = 'bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs font-bold focus:outline-none focus:border-red-600/50 [color-scheme:dark]';
+  const labelClass = 'text-[9px] font-mono uppercase tracking-[0.2em] opacity-40';
+
+  return (
+    <section className="glass rounded-[2.5rem] p-8 border border-white/5">
+      <h2 className="text-[10px] font-mono uppercase tracking-[0.3em] mb-6 opacity-40 flex items-center gap-3">
+        <Sparkles className="w-4 h-4" /> Pestrosť tímov
+      </h2>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="space-y-2">
+          <span className={labelClass}>Posledné zápasy</span>
+          <input type="number" min={0} value={variety.lookbackGames} onChange={e => setVariety({ ...variety, lookbackGames: Number(e.target.value) })} className={`${fieldClass} w-full`} />
+        </label>
+        <label className="space-y-2">
+          <span className={labelClass}>Penalizácia</span>
+          <input type="number" min={0} value={variety.repeatPenalty} onChange={e => setVariety({ ...variety, repeatPenalty: Number(e.target.value) })} className={`${fieldClass} w-full`} />
+        </label>
+      </div>
+      <p className="text-[9px] font-mono uppercase tracking-[0.2em] opacity-20 mt-3">Body sily za dvojicu, ktorá hrala spolu minule</p>
+      <button
+        onClick={save}
+        disabled={saving}
+        className="w-full mt-6 flex items-center justify-center gap-2 bg-white/10 hover:bg-white/20 py-3 rounded-2xl text-[10px] font-black uppercase tracking-[0.2em] transition-all disabled:opacity-20"
+      >
+        <Save className="w-4 h-4" /> Uložiť
+      </button>
+    </section>
+  );
+}
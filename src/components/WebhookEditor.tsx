@@ -0,0 +1,215 @@
+import React, { useState, useEffect } from 'react';
+import { Webhook as WebhookIcon, Send, Trash2, RotateCw, ChevronDown, ChevronUp } from 'lucide-react';
+import { DeliveryStatus, Webhook, WebhookDelivery, WebhookEvent } from '../types';
+import { apiFetch } from '../api';
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  signup: 'Nahlásenie',
+  cancellation: 'Odhlásenie',
+  teams_drawn: 'Žrebovanie',
+  game_reset: 'Nový zápas',
+};
+
+const STATUS_CLASSES: Record<DeliveryStatus, string> = {
+  pending: 'text-yellow-500',
+  delivered: 'text-green-500',
+  failed: 'text-red-500',
+};
+
+const STATUS_LABELS: Record<DeliveryStatus, string> = {
+  pending: 'Čaká',
+  delivered: 'Doručené',
+  failed: 'Zlyhalo',
+};
+
+const EVENTS = Object.keys(EVENT_LABELS) as WebhookEvent[];
+
+// Latest deliveries of one webhook, with a retry for the ones that gave up
+function DeliveryLog({ webhookId, refresh }: { webhookId: number, refresh: number }) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[] | null>(null);
+
+  const load = () => {
+    apiFetch(`/api/webhooks/${webhookId}/deliveries`)
+      .then(res => res.json())
+      .then(setDeliveries)
+      .catch(error => console.error('Error fetching webhook deliveries:', error));
+  };
+
+  useEffect(load, [webhookId, refresh]);
+
+  const retry = async (id: number) => {
+    try {
+      const res = await apiFetch(`/api/webhook-deliveries/${id}/retry`, { method: 'POST' });
+      if (!res.ok) {
+        alert((await res.json()).error);
+      }
+      load();
+    } catch (error) {
+      console.error('Error retrying webhook delivery:', error);
+    }
+  };
+
+  if (!deliveries) return null;
+
+  return (
+    <div className="mt-3 space-y-1 max-h-60 overflow-y-auto pr-2 custom-scrollbar">
+      <button onClick={load} className="text-[9px] font-mono uppercase tracking-widest opacity-30 hover:opacity-100 transition-all">Obnoviť</button>
+      {deliveries.length === 0 && <p className="text-[10px] font-mono uppercase tracking-widest opacity-20">Zatiaľ nič</p>}
+      {deliveries.map(delivery => (
+        <div key={delivery.id} className="flex items-center gap-2 text-[10px]" title={delivery.error ?? undefined}>
+          <span className="font-mono opacity-30 w-24 shrink-0">
+            {new Date(delivery.created_at).toLocaleString('sk-SK', { day: 'numeric', month: 'numeric', hour: '2-digit', minute: '2-digit' })}
+          </span>
+          <span className="flex-1 truncate font-bold">{delivery.event === 'ping' ? 'Test' : EVENT_LABELS[delivery.event]}</span>
+          <span className="font-mono opacity-40">{delivery.response_status ?? '—'} · {delivery.attempts}×</span>
+          <span className={`font-mono uppercase tracking-widest w-16 text-right ${STATUS_CLASSES[delivery.status]}`}>{STATUS_LABELS[delivery.status]}</span>
+          {delivery.status === 'failed' && (
+            <button onClick={() => retry(delivery.id)} className="p-1 rounded-lg hover:bg-white/10 transition-all" title="Skúsiť znova">
+              <RotateCw className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Organizer list of the URLs told about roster changes, each with the events it wants
+export default function WebhookEditor() {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>(EVENTS);
+  const [open, setOpen] = useState<number | null>(null);
+  const [sent, setSent] = useState(0); // reloads the open log after a test
+  const [busy, setBusy] = useState(false);
+
+  const load = () => {
+    apiFetch('/api/webhooks')
+      .then(res => res.json())
+      .then(setWebhooks)
+      .catch(error => console.error('Error fetching webhooks:', error));
+  };
+
+  useEffect(load, []);
+
+  const send = async (path: string, method: string, body?: object) => {
+    setBusy(true);
+    try {
+      const res = await apiFetch(path, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body && JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error);
+        return null;
+      }
+      load();
+      return data;
+    } catch (error) {
+      console.error('Error saving webhook:', error);
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const add = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await send('/api/webhooks', 'POST', { url, events })) {
+      setUrl('');
+      setEvents(EVENTS);
+    }
+  };
+
+  const test = async (webhook: Webhook) => {
+    const delivery: WebhookDelivery | null = await send(`/api/webhooks/${webhook.id}/test`, 'POST');
+    if (delivery) {
+      alert(delivery.status === 'delivered' ? `Doručené (${delivery.response_status})` : `Nedoručené: ${delivery.error}`);
+      setOpen(webhook.id);
+      setSent(sent + 1);
+    }
+  };
+
+  const remove = (webhook: Webhook) => {
+    if (confirm(`Odstrániť webhook ${webhook.url}?`)) {
+      send(`/api/webhooks/${webhook.id}`, 'DELETE');
+    }
+  };
+
+  const toggleEvent = (list: WebhookEvent[], event: WebhookEvent) =>
+    list.includes(event) ? list.filter(e => e !== event) : EVENTS.filter(e => e === event || list.includes(e));
+
+  const fieldClass = 'bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs font-bold focus:outline-none focus:border-red-600/50 [color-scheme:dark]';
+  const chipClass = (on: boolean) => `px-2 py-1 rounded-lg text-[9px] font-mono uppercase tracking-widest transition-all ${on ? 'bg-red-600/20 text-red-400' : 'bg-white/5 opacity-40 hover:opacity-100'}`;
+
+  return (
+    <section className="glass rounded-[2.5rem] p-8 border border-white/5">
+      <h2 className="text-[10px] font-mono uppercase tracking-[0.3em] mb-6 opacity-40 flex items-center gap-3">
+        <WebhookIcon className="w-4 h-4" /> Webhooky
+      </h2>
+
+      <div className="space-y-4">
+        {webhooks.map(webhook => (
+          <div key={webhook.id} className={`rounded-2xl bg-white/5 p-4 ${webhook.active ? '' : 'opacity-50'}`}>
+            <div className="flex items-center gap-2">
+              <span className="flex-1 text-xs font-bold truncate" title={webhook.url}>{webhook.url}</span>
+              <button onClick={() => test(webhook)} disabled={busy} className="p-1.5 rounded-lg hover:bg-white/10 transition-all disabled:opacity-20" title="Poslať test">
+                <Send className="w-3.5 h-3.5" />
+              </button>
+              <button onClick={() => remove(webhook)} disabled={busy} className="p-1.5 rounded-lg hover:bg-red-600/20 hover:text-red-500 transition-all disabled:opacity-20" title="Odstrániť">
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-1 mt-3">
+              {EVENTS.map(event => (
+                <button
+                  key={event}
+                  onClick={() => send(`/api/webhooks/${webhook.id}`, 'PATCH', { events: toggleEvent(webhook.events, event) })}
+                  disabled={busy}
+                  className={chipClass(webhook.events.includes(event))}
+                >
+                  {EVENT_LABELS[event]}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-3 mt-3">
+              <label className="flex items-center gap-2 text-[9px] font-mono uppercase tracking-widest opacity-60">
+                <input
+                  type="checkbox"
+                  checked={webhook.active}
+                  onChange={e => send(`/api/webhooks/${webhook.id}`, 'PATCH', { active: e.target.checked })}
+                  className="accent-red-600"
+                />
+                Aktívny
+              </label>
+              <code className="flex-1 text-[9px] font-mono opacity-30 truncate select-all" title="Tajomstvo na overenie podpisu">{webhook.secret}</code>
+              <button onClick={() => setOpen(open === webhook.id ? null : webhook.id)} className="flex items-center gap-1 text-[9px] font-mono uppercase tracking-widest opacity-40 hover:opacity-100 transition-all">
+                Log {open === webhook.id ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+              </button>
+            </div>
+            {open === webhook.id && <DeliveryLog webhookId={webhook.id} refresh={sent} />}
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={add} className="mt-6 space-y-3">
+        <input type="url" value={url} onChange={e => setUrl(e.target.value)} placeholder="https://…" className={`${fieldClass} w-full`} required />
+        <div className="flex flex-wrap gap-1">
+          {EVENTS.map(event => (
+            <button type="button" key={event} onClick={() => setEvents(toggleEvent(events, event))} className={chipClass(events.includes(event))}>
+              {EVENT_LABELS[event]}
+            </button>
+          ))}
+        </div>
+        <button
+          disabled={busy || !url || events.length === 0}
+          className="w-full bg-white/10 hover:bg-white/20 py-3 rounded-2xl text-[10px] font-black uppercase tracking-[0.2em] transition-all disabled:opacity-20"
+        >
+          Pridať webhook
+        </button>
+      </form>
+    </section>
+  );
+}
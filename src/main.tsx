@@ -1,8 +1,11 @@
 import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
+import {storeTokenFromUrl} from './api';
 import './index.css';
 
+storeTokenFromUrl();
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
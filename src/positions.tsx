@@ -0,0 +1,39 @@
+import React from 'react';
+import { Shield, Sword, Goal } from 'lucide-react';
+import { ConstraintKind, PaymentMethod, Position } from './types';
+
+export const POSITION_LABELS: Record<Position, string> = {
+  forward: 'Útočník',
+  defense: 'Obranca',
+  goalie: 'Brankár'
+};
+
+export const POSITION_ICONS: Record<Position, React.ReactNode> = {
+  forward: <Sword className="w-4 h-4" />,
+  defense: <Shield className="w-4 h-4" />,
+  goalie: <Goal className="w-4 h-4" />
+};
+
+// Players in a defense pair and in a forward line; goalies are not split into lines
+export const LINE_SIZES: Partial<Record<Position, number>> = {
+  defense: 2,
+  forward: 3
+};
+
+export const CONSTRAINT_LABELS: Record<ConstraintKind, string> = {
+  together: 'Spolu',
+  apart: 'Oddelene',
+  linemates: 'V jednej formácii'
+};
+
+export const formatGameDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('sk-SK', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+
+// Amounts are kept in cents
+export const formatMoney = (cents: number) =>
+  (cents / 100).toLocaleString('sk-SK', { style: 'currency', currency: 'EUR' });
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Hotovosť',
+  transfer: 'Prevod',
+};
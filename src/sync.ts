@@ -0,0 +1,86 @@
+import { groupSlug } from './api';
+import { PROTOCOL_VERSION, ResumeRequest, SyncEvent, SyncSnapshot, WebSocketMessage } from './types';
+
+// Reconnect delays double from one second up to half a minute
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 30_000;
+
+/**
+ * Keeps the page in sync with the server: reconnects with backoff when the connection
+ * drops, asks for the events it missed (or a snapshot) on every connect, and does the
+ * same when it notices a gap in the event numbers. Returns a function that stops it.
+ */
+export const openSync = (onEvent: (event: SyncEvent) => void, onSnapshot: (snapshot: SyncSnapshot) => void) => {
+  let socket: WebSocket | null = null;
+  let epoch: string | null = null;
+  let seq = 0;
+  let attempts = 0;
+  let resuming = false; // asked for missed events; later ones are dropped until they arrive
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+
+  const resume = () => {
+    resuming = true;
+    const request: ResumeRequest = { type: 'RESUME', v: PROTOCOL_VERSION, epoch, seq };
+    socket?.send(JSON.stringify(request));
+  };
+
+  const connect = () => {
+    clearTimeout(timer);
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const slug = groupSlug();
+    socket = new WebSocket(`${protocol}//${window.location.host}${slug ? `/?group=${slug}` : ''}`);
+
+    socket.onopen = () => {
+      attempts = 0;
+      resume();
+    };
+
+    socket.onmessage = (event) => {
+      const message: WebSocketMessage = JSON.parse(event.data);
+      // A newer server speaks a protocol this page does not know; the reloaded page will
+      if (message.v !== PROTOCOL_VERSION) {
+        window.location.reload();
+        return;
+      }
+      if (message.type === 'SNAPSHOT') {
+        epoch = message.epoch;
+        seq = message.seq;
+        resuming = false;
+        onSnapshot(message.data);
+        return;
+      }
+      if (message.epoch !== epoch || message.seq <= seq) return;
+      if (message.seq > seq + 1) {
+        if (!resuming) resume();
+        return;
+      }
+      seq = message.seq;
+      resuming = false;
+      const { v, epoch: _epoch, seq: _seq, ...syncEvent } = message;
+      onEvent(syncEvent as SyncEvent);
+    };
+
+    socket.onclose = () => {
+      socket = null;
+      if (stopped) return;
+      const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_MIN_MS * 2 ** attempts++);
+      timer = setTimeout(connect, delay * (0.5 + Math.random() / 2));
+    };
+  };
+
+  // A phone waking up should not wait for the backoff
+  const onVisible = () => {
+    if (document.visibilityState === 'visible' && !socket) connect();
+  };
+
+  connect();
+  document.addEventListener('visibilitychange', onVisible);
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+    document.removeEventListener('visibilitychange', onVisible);
+    socket?.close();
+  };
+};
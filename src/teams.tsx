@@ -0,0 +1,85 @@
+import { GameFormat, Team, TeamColor, TeamDefinition } from './types';
+
+// Tailwind classes per team color, spelled out so the build keeps them
+export const TEAM_COLOR_CLASSES: Record<TeamColor, { text: string, solid: string, soft: string, border: string, gradient: string, glow: string, dot: string, line: string }> = {
+  red: {
+    text: 'text-red-500',
+    solid: 'bg-red-600 text-white',
+    soft: 'bg-red-600/10 border-red-600/30',
+    border: 'border-red-600/20',
+    gradient: 'from-red-600 to-red-800',
+    glow: 'bg-red-600/20',
+    dot: 'bg-red-600 shadow-[0_0_8px_rgba(255,45,85,0.8)]',
+    line: 'via-red-600'
+  },
+  blue: {
+    text: 'text-blue-500',
+    solid: 'bg-blue-600 text-white',
+    soft: 'bg-blue-600/10 border-blue-600/30',
+    border: 'border-blue-600/20',
+    gradient: 'from-blue-600 to-blue-800',
+    glow: 'bg-blue-600/20',
+    dot: 'bg-blue-600 shadow-[0_0_8px_rgba(0,122,255,0.8)]',
+    line: 'via-blue-600'
+  },
+  green: {
+    text: 'text-green-500',
+    solid: 'bg-green-600 text-white',
+    soft: 'bg-green-600/10 border-green-600/30',
+    border: 'border-green-600/20',
+    gradient: 'from-green-600 to-green-800',
+    glow: 'bg-green-600/20',
+    dot: 'bg-green-600 shadow-[0_0_8px_rgba(22,163,74,0.8)]',
+    line: 'via-green-600'
+  },
+  yellow: {
+    text: 'text-yellow-500',
+    solid: 'bg-yellow-500 text-black',
+    soft: 'bg-yellow-500/10 border-yellow-500/30',
+    border: 'border-yellow-500/20',
+    gradient: 'from-yellow-500 to-yellow-700',
+    glow: 'bg-yellow-500/20',
+    dot: 'bg-yellow-500 shadow-[0_0_8px_rgba(234,179,8,0.8)]',
+    line: 'via-yellow-500'
+  },
+  purple: {
+    text: 'text-purple-500',
+    solid: 'bg-purple-600 text-white',
+    soft: 'bg-purple-600/10 border-purple-600/30',
+    border: 'border-purple-600/20',
+    gradient: 'from-purple-600 to-purple-800',
+    glow: 'bg-purple-600/20',
+    dot: 'bg-purple-600 shadow-[0_0_8px_rgba(147,51,234,0.8)]',
+    line: 'via-purple-600'
+  },
+  orange: {
+    text: 'text-orange-500',
+    solid: 'bg-orange-500 text-white',
+    soft: 'bg-orange-500/10 border-orange-500/30',
+    border: 'border-orange-500/20',
+    gradient: 'from-orange-500 to-orange-700',
+    glow: 'bg-orange-500/20',
+    dot: 'bg-orange-500 shadow-[0_0_8px_rgba(249,115,22,0.8)]',
+    line: 'via-orange-500'
+  }
+};
+
+export const TEAM_COLOR_LABELS: Record<TeamColor, string> = {
+  red: 'Červená',
+  blue: 'Modrá',
+  green: 'Zelená',
+  yellow: 'Žltá',
+  purple: 'Fialová',
+  orange: 'Oranžová'
+};
+
+// Teams offered when the organizer adds one to the format, in order
+export const TEAM_PRESETS: TeamDefinition[] = [
+  { id: 'red', name: 'Červený', color: 'red' },
+  { id: 'blue', name: 'Modrý', color: 'blue' },
+  { id: 'green', name: 'Zelený', color: 'green' },
+  { id: 'yellow', name: 'Žltý', color: 'yellow' }
+];
+
+export const findTeam = (format: GameFormat, id: Team | null) =>
+  format.teams.find(team => team.id === id) ?? null;
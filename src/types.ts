@@ -1,20 +1,445 @@
 export type Position = 'forward' | 'defense' | 'goalie';
 
+// Id of a team within the game's format, e.g. 'red'
+export type Team = string;
+
+export type TeamColor = 'red' | 'blue' | 'green' | 'yellow' | 'purple' | 'orange';
+
+export interface TeamDefinition {
+  id: Team;
+  name: string;
+  color: TeamColor;
+}
+
+// How a game is played: its teams, the players of each position a team takes, and the signup cap
+export interface GameFormat {
+  teams: TeamDefinition[];
+  slots: Record<Position, number>;
+  maxPlayers: number;
+}
+
+// A club with its own players, games and settings; its pages live under /g/<slug>
+export interface Group {
+  id: number;
+  slug: string;
+  name: string;
+  waitlist_by_reliability: boolean; // the waitlist moves up by reliability, so its order is not the signup order
+  organizer_key?: string; // only listed for the holder of the server key, who hands out the organizer links
+}
+
 export interface Player {
   id: number;
+  group_id: number;
   name: string;
   position: Position;
+  secondary_positions: Position[]; // other positions the player can play, most preferred first
+  rating: number;
+  active: boolean;
+  token?: string; // personal signup link token, only sent to the organizer
+}
+
+// Linemates are kept in one team like 'together' and also put into the same line
+export type ConstraintKind = 'together' | 'apart' | 'linemates';
+
+// Pairwise rule for the team draw; hard rules must hold, soft ones are kept when possible
+export interface PlayerConstraint {
+  id: number;
+  player_a: number;
+  player_b: number;
+  kind: ConstraintKind;
+  hard: boolean;
 }
 
+export type Role = 'organizer' | 'player' | 'viewer';
+
+// Who the caller is, resolved from the token in their personal link
+export interface Identity {
+  role: Role;
+  player: Pick<Player, 'id' | 'name' | 'position'> | null;
+}
+
+// A signup for a game; guests without a player record have player_id null
 export interface GamePlayer {
   id: number;
+  player_id: number | null;
+  name: string;
+  position: Position;
+  team: Team | null;
+  played_position: Position | null; // position the draw filled with this player when it is not their own
+  line: number | null; // defense pair or forward line within the team, counted from 1
+  waitlisted: boolean;
+  locked: boolean; // the draw keeps the player in their team
+  no_show: boolean; // marked by the organizer after the game
+}
+
+// A signup taken back before the game; minutes_before is relative to the game start, null without a start time
+export interface Cancellation {
+  id: number;
+  game_id: number;
+  player_id: number | null;
+  name: string;
+  position: Position;
+  waitlisted: boolean; // a player on the waitlist leaves nobody short
+  cancelled_at: string;
+  minutes_before: number | null;
+  removed_by: Role;
+}
+
+export interface AttendanceRecord {
+  player_id: number;
+  name: string;
+  games: number; // roster spots in closed games the player showed up for
+  no_shows: number;
+  cancellations: number;
+  late_cancellations: number;
+  reliability: number | null; // share of commitments kept, 0–1
+}
+
+export interface AttendanceReport {
+  players: AttendanceRecord[];
+  waitlistByReliability: boolean; // free slots go to the most reliable waiting player first
+}
+
+// A row of an imported player file as it would be imported
+export type ImportStatus = 'new' | 'duplicate' | 'invalid';
+
+export interface ImportRow {
+  line: number; // in the file, counted from 1
+  name: string;
+  position: Position | null;
+  secondary_positions: Position[];
+  rating: number;
+  status: ImportStatus;
+  duplicate_of: number | null; // the player already in the database
+  error: string | null; // why an invalid row is skipped
+}
+
+export interface ImportResult {
+  rows: ImportRow[];
+  created: Player[]; // empty for a preview
+}
+
+export interface NameMatch {
+  player_id: number;
+  name: string;
+  score: number; // 0–1, 1 for the same name
+}
+
+export type ChatIntent = 'in' | 'out';
+
+// The last "+1" or "-1" of one chat author and the players the name may belong to
+export interface ChatSignup {
+  author: string;
+  intent: ChatIntent;
+  matches: NameMatch[]; // best first
+  player_id: number | null; // the match certain enough to sign up without asking
+  signed_up: boolean; // the matched player is already on the current game
+}
+
+// Roster events other tools can subscribe to; 'ping' is only sent by the test button
+export type WebhookEvent = 'signup' | 'cancellation' | 'teams_drawn' | 'game_reset';
+
+export interface Webhook {
+  id: number;
+  url: string;
+  secret: string; // signs every payload, see X-Hockey-Signature
+  events: WebhookEvent[];
+  active: boolean;
+  created_at: string;
+}
+
+export type DeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+// One event sent to one webhook, with the outcome of its latest attempt
+export interface WebhookDelivery {
+  id: number;
+  webhook_id: number;
+  event: WebhookEvent | 'ping';
+  payload: string; // the signed JSON body
+  status: DeliveryStatus; // failed once every attempt was used up
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  next_attempt_at: string | null; // while pending
+  created_at: string;
+  delivered_at: string | null;
+}
+
+export type AuditAction = 'player_added' | 'signup' | 'signup_removed' | 'teams_changed' | 'game_reset' | 'undo';
+
+// Who made a change; scheduled draws and game rollovers are made by the schedule
+export type AuditActor = Role | 'schedule';
+
+// One change to players, signups, teams or the open game, with the state it replaced and
+// the state it left, as much as undoing it needs; entries are never changed or deleted
+export interface AuditEntry {
+  id: number;
+  group_id: number;
+  action: AuditAction;
+  actor_role: AuditActor;
+  actor_player_id: number | null;
+  actor_name: string | null; // the player who acted through their personal link
+  created_at: string;
+  game_id: number | null;
+  summary: string;
+  before: unknown;
+  after: unknown;
+  undoes: number | null; // the entry an undo reverted
+  undone: boolean; // a later undo reverted this entry
+}
+
+export type GameStatus = 'open' | 'closed';
+
+// Money is kept in cents
+export interface CostSettings {
+  iceCost: number; // ice rent of new games
+  goalieDiscount: number; // percent off a goalie's share; 100 exempts goalies
+}
+
+export type LedgerKind = 'charge' | 'payment';
+
+export type PaymentMethod = 'cash' | 'transfer';
+
+// A player's share of a game's ice cost, or money the player handed in
+export interface LedgerEntry {
+  id: number;
+  player_id: number;
+  game_id: number | null; // the game a charge is for
+  kind: LedgerKind;
+  amount: number; // cents, always positive
+  method: PaymentMethod | null; // for payments
+  note: string;
+  created_at: string;
+}
+
+export interface PlayerBalance {
+  player_id: number;
   name: string;
+  charged: number;
+  paid: number;
+  balance: number; // paid minus charged; negative while the player owes money
+}
+
+// Period clock of a game played live; it counts up and the time of a running clock is
+// the banked seconds plus the time since it was started
+export interface GameClock {
+  period: number; // counted from 1
+  elapsed: number; // seconds played in the period before the last start
+  running_since: string | null; // ISO timestamp, null while paused
+}
+
+// A goal recorded during the game; scorer and assists are signups of the scoring team
+export interface GameGoal {
+  id: number;
+  game_id: number;
+  team: Team;
+  scorer_id: number;
+  assist_ids: number[];
+  period: number | null; // null when the clock was not used
+  time: number | null; // seconds into the period
+  created_at: string;
+}
+
+export interface Game {
+  id: number;
+  group_id: number;
+  date: string;
+  venue: string;
+  status: GameStatus;
+  closed_at: string | null;
+  format: GameFormat;
+  scores: Record<Team, number> | null; // final score per team, null until recorded
+  clock: GameClock | null; // null until the game is played live
+  start_time: string | null; // 'HH:MM'
+  // Signup window, set for games created from the weekly schedule (ISO timestamps)
+  signups_open_at: string | null;
+  signups_lock_at: string | null;
+  draw_at: string | null;
+  auto_drawn_at: string | null;
+  ice_cost: number | null; // cents split among the players once the game is closed; null when free
+}
+
+// Recurring weekly slot; days are 0 = Sunday … 6 = Saturday
+export interface Schedule {
+  enabled: boolean;
+  day: number;
+  time: string;
+  venue: string;
+  opensDay: number;
+  opensTime: string;
+  lockMinutesBefore: number;
+  drawMinutesBefore: number;
+}
+
+export interface GameWithRoster extends Game {
+  players: GamePlayer[];
+}
+
+// One entry of a player's rating log, written when a game result is recorded
+export interface RatingChange {
+  id: number;
+  game_id: number;
+  player_id: number;
+  rating_before: number;
+  rating_after: number;
+  change: number;
+  date: string;
+}
+
+export interface TeamAssignment {
+  id: number;
+  team: Team | null;
+  played_position: Position | null; // set when the draw puts the player out of position
+}
+
+export interface DrawCandidate {
+  id: number; // signup id
   position: Position;
-  team: 'red' | 'blue' | null;
+  secondary: Position[]; // other positions the player can play, most preferred first
+  rating: number;
+  locked: Team | null; // team the organizer pinned the player to; the draw keeps it and the position
 }
 
-export type WebSocketMessage = 
+// Keep-together / keep-apart rule between two candidates, identified by the constraint it comes from
+export interface DrawRule {
+  id: number;
+  a: number;
+  b: number;
+  kind: ConstraintKind;
+  hard: boolean;
+}
+
+// Two candidates who were teammates in recent games; weight is what putting them together again costs the draw
+export interface TeammateRepeat {
+  a: number;
+  b: number;
+  weight: number;
+}
+
+// How far back the draw looks for repeated teammates and how hard it avoids them
+export interface VarietySettings {
+  lookbackGames: number;
+  repeatPenalty: number; // rating points per repeat from the last game, less for older games
+}
+
+export type DrawTrigger = 'organizer' | 'schedule';
+
+// A draw as it was made: its input and seed are enough to run it again and get the same teams
+export interface DrawRecord {
+  id: number;
+  game_id: number;
+  seed: number;
+  created_at: string;
+  triggered_by: DrawTrigger;
+  format: GameFormat;
+  candidates: (DrawCandidate & { player_id: number | null; name: string })[];
+  rules: DrawRule[];
+  repeats: TeammateRepeat[];
+  teams: TeamAssignment[];
+  balance: TeamBalance;
+}
+
+// Sum of player ratings per team and the gap between the strongest and the weakest team
+export interface TeamBalance {
+  totals: Record<Team, number>;
+  difference: number;
+}
+
+// A player's line over the games with a recorded result in the chosen period
+export interface PlayerStats {
+  player_id: number;
+  name: string;
+  games: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  goals: number;
+  assists: number;
+  points: number;
+  points_per_game: number;
+  goalie_games: number;
+  goals_against: number; // goals the other teams scored in the games the player kept goal
+  goals_against_average: number | null;
+  win_streak: number; // wins in a row up to the latest game
+  longest_win_streak: number;
+}
+
+// Player ids of the best players per category, best first
+export interface StatsLeaders {
+  points: number[];
+  goals: number[];
+  assists: number[];
+  wins: number[];
+  longest_win_streak: number[];
+  goals_against_average: number[];
+}
+
+export interface StatsResponse {
+  from: string | null;
+  to: string | null;
+  players: PlayerStats[];
+  leaders: StatsLeaders;
+}
+
+export type ApiErrorCode =
+  | 'INVALID_INPUT'
+  | 'INVALID_NAME'
+  | 'INVALID_POSITION'
+  | 'NOT_FOUND'
+  | 'ALREADY_SIGNED_UP'
+  | 'NOT_SIGNED_UP'
+  | 'NOT_ON_ROSTER'
+  | 'NOT_ENOUGH_PLAYERS'
+  | 'NOT_ENOUGH_GOALIES'
+  | 'CONSTRAINTS_UNMET'
+  | 'FORBIDDEN'
+  | 'SIGNUPS_NOT_OPEN'
+  | 'SIGNUPS_LOCKED'
+  | 'NOTHING_TO_UNDO'
+  | 'CANNOT_UNDO'
+  | 'NOT_DRAWN';
+
+// Body of every non-2xx API response
+export interface ApiErrorResponse {
+  error: string;
+  code: ApiErrorCode;
+}
+
+// Raised whenever messages change in a way an open page of an older version cannot read
+export const PROTOCOL_VERSION = 3;
+
+// Changes pushed to every open page
+export type SyncEvent =
   | { type: 'SIGNUP_UPDATE'; data: GamePlayer }
   | { type: 'SIGNUP_REMOVED'; id: number }
-  | { type: 'TEAMS_UPDATED' }
-  | { type: 'GAME_RESET' };
+  | { type: 'SIGNUP_PROMOTED'; data: GamePlayer }
+  | { type: 'PLAYERS_UPDATED' }
+  | { type: 'TEAMS_UPDATED'; data: GamePlayer[]; balance?: TeamBalance; freshness?: number; unmet?: PlayerConstraint[] } // every signup of the open game
+  | { type: 'GAME_UPDATED'; data: Game }
+  | { type: 'CLOCK_UPDATED'; game_id: number; clock: GameClock | null }
+  | { type: 'GOAL_SCORED'; data: GameGoal }
+  | { type: 'GOAL_REMOVED'; id: number }
+  | { type: 'RESULT_RECORDED'; data: Game }
+  | { type: 'GAME_RESET'; data: Game } // the new open game, without signups or goals yet
+  | { type: 'GROUP_UPDATED'; data: Group }
+  | { type: 'STATE_RESTORED'; data: SyncSnapshot }; // after an undo
+
+// Everything the game page shows live, sent when missed events cannot be replayed
+export interface SyncSnapshot {
+  game: Game;
+  signups: GamePlayer[];
+  goals: GameGoal[];
+}
+
+// Events are numbered from 1 per server run (epoch), so a page can tell what it missed
+export type WebSocketMessage =
+  | (SyncEvent & { v: number; epoch: string; seq: number })
+  | { type: 'SNAPSHOT'; v: number; epoch: string; seq: number; data: SyncSnapshot };
+
+// Sent by a page on every (re)connect and when it notices a gap; without an epoch it gets a snapshot
+export interface ResumeRequest {
+  type: 'RESUME';
+  v: number;
+  epoch: string | null;
+  seq: number; // the last event the page applied
+}